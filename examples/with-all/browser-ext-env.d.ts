@@ -1,10 +1,8 @@
-/// <reference types="vite/client" />
+// Generated by browser-ext from the env schema of browser-ext.config.ts, do not edit
 
 declare namespace NodeJS {
   interface ProcessEnv {
     NODE_ENV: 'development' | 'production';
-    // Add your environment variables here
-    // Only variables prefixed with BROWSER_EXT_ will be available
     BROWSER_EXT_API_KEY?: string;
     BROWSER_EXT_APP_NAME?: string;
   }
@@ -0,0 +1,9 @@
+import { defineConfig } from '@browser-ext/scripts';
+
+export default defineConfig({
+  // Only variables prefixed with BROWSER_EXT_ are available, browser-ext-env.d.ts is generated from this schema
+  env: {
+    BROWSER_EXT_API_KEY: { required: false },
+    BROWSER_EXT_APP_NAME: { required: false },
+  },
+});
@@ -0,0 +1 @@
+/// <reference types="@browser-ext/scripts/client" />
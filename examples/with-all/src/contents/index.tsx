@@ -1,6 +1,8 @@
 import { useState } from 'react';
 import { createRoot } from 'react-dom/client';
 
+import css from './index.css?inline';
+
 console.log('contents/index.ts');
 
 function App() {
@@ -34,8 +36,17 @@ function App() {
   );
 }
 
+// Render in a shadow root so the Tailwind styles don't leak into the page and the page styles don't leak in
+const host = document.createElement('div');
+document.body.appendChild(host);
+
+const shadowRoot = host.attachShadow({ mode: 'open' });
+const style = document.createElement('style');
+style.textContent = css;
+shadowRoot.appendChild(style);
+
 const container = document.createElement('div');
-document.body.appendChild(container);
+shadowRoot.appendChild(container);
 
 const root = createRoot(container);
 root.render(<App />);
@@ -0,0 +1,107 @@
+// Types of the imports handled by browser-ext, add /// <reference types="@browser-ext/scripts/client" /> to a .d.ts file
+
+declare module '*.css?inline' {
+  const css: string;
+  export default css;
+}
+
+declare module '*.css?stylesheet' {
+  const sheet: CSSStyleSheet;
+  export default sheet;
+}
+
+declare module '*.module.css' {
+  const classes: { readonly [key: string]: string };
+  export default classes;
+}
+
+declare module '*.module.scss' {
+  const classes: { readonly [key: string]: string };
+  export default classes;
+}
+
+declare module '*.module.sass' {
+  const classes: { readonly [key: string]: string };
+  export default classes;
+}
+
+declare module '*.svg' {
+  import { FC, SVGProps } from 'react';
+  const component: FC<SVGProps<SVGSVGElement>>;
+  export default component;
+}
+
+declare module '*.svg?url' {
+  const url: string;
+  export default url;
+}
+
+declare module '*.json5' {
+  const value: any;
+  export default value;
+}
+
+declare module '*.png' {
+  const url: string;
+  export default url;
+}
+
+declare module '*.jpg' {
+  const url: string;
+  export default url;
+}
+
+declare module '*.jpeg' {
+  const url: string;
+  export default url;
+}
+
+declare module '*.gif' {
+  const url: string;
+  export default url;
+}
+
+declare module '*.webp' {
+  const url: string;
+  export default url;
+}
+
+declare module '*.avif' {
+  const url: string;
+  export default url;
+}
+
+declare module '*.ico' {
+  const url: string;
+  export default url;
+}
+
+declare module '*.bmp' {
+  const url: string;
+  export default url;
+}
+
+declare module '*.woff' {
+  const url: string;
+  export default url;
+}
+
+declare module '*.woff2' {
+  const url: string;
+  export default url;
+}
+
+declare module '*.ttf' {
+  const url: string;
+  export default url;
+}
+
+declare module '*.otf' {
+  const url: string;
+  export default url;
+}
+
+declare module '*.eot' {
+  const url: string;
+  export default url;
+}
@@ -0,0 +1,138 @@
+#!/usr/bin/env node
+import { Option, program } from 'commander';
+
+import { name, version } from '../package.json';
+import { loadConfig } from './config/loadConfig';
+import { ManifestVersion } from './manifest/toManifestV2';
+import { build } from './scripts/build';
+import { buildAndZip } from './scripts/buildAndZip';
+import { dev } from './scripts/dev';
+import { zip } from './scripts/zip';
+import Logger from './utils/logger';
+import { getTargets } from './utils/targets';
+import { getVariant } from './utils/variants';
+
+// Setup the program
+program.name(name).version(version, '-v, --version').usage('<script> [option]');
+
+// The browsers to build for, shared by every command
+const targetOption = () =>
+  new Option('-t, --target <target>', 'Browser to build for').choices(['chrome', 'firefox', 'all']).default('chrome');
+
+// The variant to build, e.g. beta or stable, shared by every command
+const variantOption = () => new Option('--variant <name>', 'Variant to build, with its own .env file and manifest');
+
+// The manifest version of the build, the Manifest V3 of the extension is converted for browsers that need Manifest V2
+const manifestVersionOption = () =>
+  new Option('--manifest-version <version>', 'Manifest version of the build, 2 for older browsers')
+    .choices(['2', '3'])
+    .default('3');
+
+// Add the build command
+program
+  .command('build')
+  .description('Build the browser extension for production.')
+  .addOption(targetOption())
+  .addOption(variantOption())
+  .addOption(manifestVersionOption())
+  .option('--no-typecheck', 'Skip the type-check')
+  .option('--analyze', 'Write a JSON and HTML report of the size of every entry')
+  .action(async (options) => {
+    const userConfig = await loadConfig();
+
+    await build({
+      targets: getTargets(options.target),
+      variant: getVariant(options.variant, userConfig),
+      manifestVersion: Number(options.manifestVersion) as ManifestVersion,
+      userConfig: userConfig,
+      typecheck: options.typecheck,
+      analyze: Boolean(options.analyze),
+    });
+  });
+
+// Add the zip command
+program
+  .command('zip')
+  .description('Create a zip file of the production build.')
+  .addOption(targetOption())
+  .addOption(variantOption())
+  .addOption(manifestVersionOption())
+  .option('--source-maps', 'Include the source maps in the zip')
+  .action(async (options) => {
+    const userConfig = await loadConfig();
+
+    await zip({
+      targets: getTargets(options.target),
+      variant: getVariant(options.variant, userConfig),
+      manifestVersion: Number(options.manifestVersion) as ManifestVersion,
+      userConfig: userConfig,
+      sourceMaps: Boolean(options.sourceMaps),
+    });
+  });
+
+// Add the build-and-zip command
+program
+  .command('build-and-zip')
+  .description('Build the browser extension for production and create a zip file.')
+  .addOption(targetOption())
+  .addOption(variantOption())
+  .addOption(manifestVersionOption())
+  .option('--no-typecheck', 'Skip the type-check')
+  .option('--source-maps', 'Include the source maps in the zip')
+  .action(async (options) => {
+    const userConfig = await loadConfig();
+
+    await buildAndZip({
+      targets: getTargets(options.target),
+      variant: getVariant(options.variant, userConfig),
+      manifestVersion: Number(options.manifestVersion) as ManifestVersion,
+      userConfig: userConfig,
+      typecheck: options.typecheck,
+      sourceMaps: Boolean(options.sourceMaps),
+    });
+  });
+
+// Add the start command
+program
+  .command('dev')
+  .description('Start the browser extension in development mode.')
+  .option('-p, --port <number>', 'Port to run the development server on', '10000')
+  .option('-r, --reload <boolean>', 'Reload the extension when changes are made', 'true')
+  .option('--hot <boolean>', 'Hot update extension pages with React Fast Refresh instead of reloading them', 'true')
+  .option('--forward-logs', 'Print the console output and uncaught errors of every extension context')
+  .option('--reinject-content-scripts', 'Re-inject changed content scripts instead of reloading their pages')
+  .option('-o, --open [urls...]', 'Open a browser with the extension loaded, along with the given urls')
+  .option('--no-typecheck', 'Skip the type-check')
+  .option('-v, --verbose <boolean>', 'Enable verbose logging including asset details', 'false')
+  .addOption(targetOption())
+  .addOption(variantOption())
+  .addOption(manifestVersionOption())
+  .action(async (options) => {
+    const port = Number(options.port);
+    const reload = options.reload === 'true';
+    const hot = options.hot === 'true';
+    const verbose = options.verbose === 'true';
+
+    Logger.info('options', options);
+
+    const userConfig = await loadConfig();
+
+    await dev({
+      port: port,
+      reload: reload,
+      hot: hot,
+      forwardLogs: Boolean(options.forwardLogs),
+      reinjectContentScripts: Boolean(options.reinjectContentScripts),
+      open: Boolean(options.open),
+      startUrls: Array.isArray(options.open) ? options.open : [],
+      typecheck: options.typecheck,
+      verbose: verbose,
+      targets: getTargets(options.target),
+      variant: getVariant(options.variant, userConfig),
+      manifestVersion: Number(options.manifestVersion) as ManifestVersion,
+      userConfig: userConfig,
+    });
+  });
+
+// Parse the arguments
+program.parse(process.argv);
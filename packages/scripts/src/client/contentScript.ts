@@ -0,0 +1,40 @@
+declare global {
+  var __browserExtContentScript: string | undefined;
+  var __browserExtCleanupHooks: Record<string, (() => void)[]> | undefined;
+  var __browserExtStyles: Record<string, { elements: HTMLStyleElement[]; roots: ShadowRoot[] }> | undefined;
+}
+
+// Name of the content script being evaluated, set by the ReloadContentPlugin banner when re-injection is enabled.
+// It's read once when this module is evaluated, so callbacks registered later are still tied to the right script.
+const contentScript = globalThis.__browserExtContentScript;
+
+// Register a callback that removes the DOM and listeners of a content script before it's re-injected in development
+export function onContentScriptCleanup(callback: () => void) {
+  if (!contentScript) {
+    return;
+  }
+
+  const hooks = (globalThis.__browserExtCleanupHooks ??= {});
+  (hooks[contentScript] ??= []).push(callback);
+}
+
+// Name of the entry, replaced by webpack. Content scripts share their global scope, so each keeps its own styles.
+declare const __webpack_runtime_id__: string;
+
+// Get the styles collected for the content script when the contentScriptCss config is "shadowRoot"
+export function getContentScriptStyles() {
+  const styles = (globalThis.__browserExtStyles ??= {});
+  return (styles[__webpack_runtime_id__] ??= { elements: [], roots: [] });
+}
+
+// Add the css imported by the content script to a shadow root, including the css of modules imported later
+export function attachContentScriptStyles(shadowRoot: ShadowRoot) {
+  const styles = getContentScriptStyles();
+
+  // A style element can only be in one place, the other shadow roots get a copy
+  styles.elements.forEach((element) => {
+    shadowRoot.append(styles.roots.length ? element.cloneNode(true) : element);
+  });
+
+  styles.roots.push(shadowRoot);
+}
@@ -0,0 +1,56 @@
+/// <reference types="webpack/module" />
+
+// Added to every extension page in development, the ReloadPagePlugin banner calls it when a hot update is ready
+
+declare global {
+  interface Window {
+    __browserExtHotUpdate?: () => void;
+  }
+}
+
+const hot = import.meta.webpackHot;
+
+function reload(reason: string) {
+  console.log(`[browser-ext] ${reason}, reloading the page...`);
+  window.location.reload();
+}
+
+function check() {
+  hot
+    ?.check(true)
+    .then((updatedModules) => {
+      // Nothing to apply means this page missed an update, so a full reload is the only way to catch up
+      if (!updatedModules) {
+        reload('Could not find the hot update');
+        return;
+      }
+
+      console.log(`[browser-ext] Hot updated ${updatedModules.length} module(s)`);
+    })
+    .catch((error: Error) => {
+      // The update bubbled up to a module that doesn't accept it (e.g. the entry that renders the app)
+      reload(`Could not apply the hot update (${error.message})`);
+    });
+}
+
+if (hot) {
+  let pending = false;
+
+  // Check again once the current update is done if another build finished in the meantime
+  hot.addStatusHandler((status) => {
+    if (status === 'idle' && pending) {
+      pending = false;
+      check();
+    }
+  });
+
+  window.__browserExtHotUpdate = () => {
+    if (hot.status() === 'idle') {
+      check();
+    } else {
+      pending = true;
+    }
+  };
+}
+
+export {};
@@ -0,0 +1,12 @@
+import { getContentScriptStyles } from './contentScript';
+
+// Insert function of style-loader for content scripts when the contentScriptCss config is "shadowRoot". The styles
+// are kept out of the page and added to the shadow roots passed to attachContentScriptStyles.
+export default function insertStyle(element: HTMLStyleElement) {
+  const styles = getContentScriptStyles();
+
+  styles.elements.push(element);
+  styles.roots.forEach((root, index) => {
+    root.append(index === 0 ? element : element.cloneNode(true));
+  });
+}
@@ -0,0 +1,8 @@
+declare let __webpack_public_path__: string;
+declare const chrome: { runtime?: { getURL?: (path: string) => string } } | undefined;
+
+// Content scripts run on the pages of other sites, so the images and fonts they import are loaded from the extension.
+// Scripts injected into the main world can't reach chrome.runtime and keep loading them from the root of the page.
+if (typeof chrome !== 'undefined' && chrome?.runtime?.getURL) {
+  __webpack_public_path__ = chrome.runtime.getURL('/');
+}
@@ -0,0 +1,84 @@
+import webpack from 'webpack';
+
+import { Manifest } from '../manifest/manifestTypes';
+import { Target } from '../utils/targets';
+
+export interface BrowserExtConfigContext {
+  mode: 'development' | 'production';
+  target: Target;
+  variant?: string;
+}
+
+export interface EnvVariable {
+  /** Type the value is validated against, process.env values are still strings (default: "string") */
+  type?: 'string' | 'number' | 'boolean';
+  /** Fail the build when the variable is missing or empty (default: true) */
+  required?: boolean;
+  /** Value used when the variable isn't set */
+  default?: string;
+  /** Shown in the generated types and in the error when the variable is missing */
+  description?: string;
+}
+
+export interface BrowserExtConfig {
+  /** Folder the builds and zips are written to, relative to the extension root (default: "build") */
+  outDir?: string;
+  /** Only environment variables starting with this prefix are exposed through process.env (default: "BROWSER_EXT_") */
+  envPrefix?: string;
+  /** Environment variables used by the extension, they are validated and typed in browser-ext-env.d.ts */
+  env?: Record<string, EnvVariable>;
+  /** Module aliases, relative paths are resolved from the extension root, e.g. { '~': './src' } */
+  alias?: Record<string, string>;
+  /** Extra webpack module rules, added after the built-in ones */
+  rules?: webpack.RuleSetRule[];
+  /** Extra webpack plugins, added after the built-in ones */
+  plugins?: webpack.WebpackPluginInstance[];
+  /**
+   * Where the css imported by content scripts is injected (default: "document"). With "shadowRoot" the styles are
+   * collected instead of being added to the page, call attachContentScriptStyles with the shadow root of the UI.
+   */
+  contentScriptCss?: 'document' | 'shadowRoot';
+  /** Png (at least 128x128 pixels) or svg image every size of the icons and action icons is generated from */
+  icon?: string;
+  /** Manifest changes only made to the development build, the production build never gets them */
+  devManifest?: {
+    /** Public key added as the manifest key, so the id of the development build stays the same in Chrome */
+    key?: string;
+    /** Appended to the name and action.default_title unless they are localized (__MSG_...__), e.g. " (DEV)" */
+    nameSuffix?: string;
+    /** Draw a DEV badge on the icons and action icons */
+    badge?: boolean;
+    /** Added to the permissions */
+    permissions?: string[];
+    /** Added to the host permissions, e.g. ['http://localhost/*'] */
+    hostPermissions?: string[];
+  };
+  /** Browser launched by `dev --open` */
+  open?: {
+    /** Path to the binary of each browser, found on the system when not set, e.g. { chrome: '/usr/bin/chromium' } */
+    binaries?: Partial<Record<Target, string>>;
+    /** Urls opened when the browser starts, the urls passed to --open take precedence */
+    startUrls?: string[];
+  };
+  /** Settings of the variants built with --variant, e.g. { beta: { manifest: { name: 'My Extension Beta' } } } */
+  variants?: Record<
+    string,
+    {
+      /** Merged over the manifest after manifest.<variant>.json, objects are merged and arrays are replaced */
+      manifest?: Partial<Manifest>;
+    }
+  >;
+  /** Maximum size in bytes of the files loaded by each type of entry, the production build fails when an entry is bigger */
+  budgets?: {
+    background?: number;
+    contentScript?: number;
+    extensionPage?: number;
+  };
+  /** Change the final webpack config, either by mutating it or by returning a new one */
+  webpack?: (config: webpack.Configuration, context: BrowserExtConfigContext) => webpack.Configuration | void;
+}
+
+// Identity function that gives browser-ext.config.ts type checking and autocompletion
+export function defineConfig(config: BrowserExtConfig) {
+  return config;
+}
@@ -0,0 +1,37 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { createJiti } from 'jiti';
+
+import Logger from '../utils/logger';
+import { pathToBrowserExt } from '../utils/pathToBrowserExt';
+import { BrowserExtConfig } from './defineConfig';
+
+const configFiles = [
+  'browser-ext.config.ts',
+  'browser-ext.config.mts',
+  'browser-ext.config.js',
+  'browser-ext.config.mjs',
+];
+
+// Load the browser-ext.config file from the root of the extension, if there is one
+export async function loadConfig(): Promise<BrowserExtConfig> {
+  const configFile = configFiles.find((file) => fs.existsSync(path.join(pathToBrowserExt.root, file)));
+
+  if (!configFile) {
+    return {};
+  }
+
+  const jiti = createJiti(import.meta.url, { moduleCache: false });
+
+  try {
+    const config = await jiti.import<BrowserExtConfig>(path.join(pathToBrowserExt.root, configFile), {
+      default: true,
+    });
+
+    Logger.info(`Using ${configFile}`);
+    return config || {};
+  } catch (error) {
+    Logger.error(`Failed to load ${configFile}`, error as Error);
+    throw error;
+  }
+}
@@ -0,0 +1,19 @@
+import { Target } from '../utils/targets';
+import { Manifest } from './manifestTypes';
+
+export interface ManifestContext {
+  mode: 'development' | 'production';
+  target: Target;
+  // The variant being built with --variant, if any
+  variant?: string;
+  // The environment variables exposed to the extension (prefixed with BROWSER_EXT_ by default)
+  env: Record<string, string>;
+  packageJson: Record<string, any>;
+}
+
+export type ManifestDefinition = Manifest | ((context: ManifestContext) => Manifest | Promise<Manifest>);
+
+// Identity function that gives manifest.ts type checking and autocompletion
+export function defineManifest(manifest: ManifestDefinition) {
+  return manifest;
+}
@@ -0,0 +1,95 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { createJiti } from 'jiti';
+
+import { BrowserExtConfig } from '../config/defineConfig';
+import { loadExtensionEnv } from '../utils/envSchema';
+import { pathToBrowserExt } from '../utils/pathToBrowserExt';
+import { Target } from '../utils/targets';
+import { getVariantManifestPath } from '../utils/variants';
+import { ManifestContext, ManifestDefinition } from './defineManifest';
+import { Manifest } from './manifestTypes';
+
+const manifestFiles = ['manifest.ts', 'manifest.mts', 'manifest.js', 'manifest.mjs', 'manifest.json'];
+
+// Get the path to the manifest of the extension, a manifest.ts takes precedence over manifest.json
+export function getManifestPath() {
+  const manifestFile = manifestFiles.find((file) => fs.existsSync(path.join(pathToBrowserExt.root, file)));
+
+  return manifestFile ? path.join(pathToBrowserExt.root, manifestFile) : pathToBrowserExt.manifestJson;
+}
+
+// Get the files the manifest is loaded from, the manifest of the variant is merged over the main one
+export function getManifestPaths(variant?: string) {
+  const variantManifestPath = variant && getVariantManifestPath(variant);
+
+  return variantManifestPath && fs.existsSync(variantManifestPath)
+    ? [getManifestPath(), variantManifestPath]
+    : [getManifestPath()];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Merge the overlay of a variant over the manifest, objects are merged and anything else (arrays included) is replaced
+function mergeManifest(manifest: Record<string, unknown>, overlay: Record<string, unknown>) {
+  const merged = { ...manifest };
+
+  Object.entries(overlay).forEach(([key, value]) => {
+    const current = merged[key];
+    merged[key] = isObject(current) && isObject(value) ? mergeManifest(current, value) : value;
+  });
+
+  return merged;
+}
+
+async function loadMainManifest(options: {
+  mode: 'development' | 'production';
+  target: Target;
+  variant?: string;
+  userConfig: BrowserExtConfig;
+}): Promise<Manifest> {
+  const manifestPath = getManifestPath();
+
+  if (path.extname(manifestPath) === '.json') {
+    return fs.readJSONSync(manifestPath);
+  }
+
+  const context: ManifestContext = {
+    mode: options.mode,
+    target: options.target,
+    variant: options.variant,
+    env: loadExtensionEnv(options.mode, options.userConfig, options.variant),
+    packageJson: fs.readJSONSync(pathToBrowserExt.packageJson),
+  };
+
+  // Don't cache the module so changes are picked up when the manifest is loaded again
+  const jiti = createJiti(import.meta.url, { moduleCache: false });
+  const definition = await jiti.import<ManifestDefinition>(manifestPath, { default: true });
+
+  return typeof definition === 'function' ? await definition(context) : definition;
+}
+
+// Load the manifest of the extension, evaluating manifest.ts for the mode and target being built.
+// The manifest.<variant>.json and the manifest of the variant in the config are then merged over it.
+export async function loadManifest(options: {
+  mode: 'development' | 'production';
+  target: Target;
+  variant?: string;
+  userConfig: BrowserExtConfig;
+}): Promise<Manifest> {
+  const manifestJson = await loadMainManifest(options);
+
+  if (!options.variant) {
+    return manifestJson;
+  }
+
+  const variantManifestPath = getVariantManifestPath(options.variant);
+  const overlays = [
+    fs.existsSync(variantManifestPath) ? fs.readJSONSync(variantManifestPath) : {},
+    options.userConfig.variants?.[options.variant]?.manifest || {},
+  ];
+
+  return overlays.reduce(mergeManifest, manifestJson as Record<string, unknown>) as Manifest;
+}
@@ -0,0 +1,78 @@
+// Extensions of the scripts that are compiled by webpack
+export const scriptExtensions = ['.js', '.jsx', '.ts', '.tsx'];
+
+// Check if a manifest value is a script that needs to be compiled (as opposed to a plain .js file or a glob)
+export function isCompiledScript(value: string) {
+  return /\.(jsx|ts|tsx)$/.test(value) && !/[*?[\]{}]/.test(value);
+}
+
+// Remove any query or hash from a page, e.g. "options.html#general"
+function stripPage(page: string) {
+  return page.replace(/[?#].*$/, '');
+}
+
+// Get the scripts that run in the background (service worker or event page scripts)
+export function getBackgroundScripts(manifestJson: any): string[] {
+  const scripts: string[] = [];
+
+  if (manifestJson.background?.service_worker) {
+    scripts.push(manifestJson.background.service_worker);
+  }
+
+  if (manifestJson.background?.scripts) {
+    scripts.push(...manifestJson.background.scripts);
+  }
+
+  return scripts;
+}
+
+// Get the scripts that are injected into web pages by the manifest
+export function getContentScripts(manifestJson: any): string[] {
+  const scripts: string[] = [];
+
+  manifestJson.content_scripts?.forEach((contentScript: { js?: string[] }) => {
+    if (contentScript.js) {
+      scripts.push(...contentScript.js);
+    }
+  });
+
+  return scripts;
+}
+
+// Get the files of a web_accessible_resources entry, an object with a list of files in Manifest V3 or a file in Manifest V2
+export function getResourceFiles(resource: string | { resources?: string[] }): string[] {
+  return typeof resource === 'string' ? [resource] : resource.resources || [];
+}
+
+// Get the scripts listed in web_accessible_resources that need to be compiled (e.g. scripts injected into the main world)
+export function getWebAccessibleScripts(manifestJson: any): string[] {
+  const scripts: string[] = [];
+
+  manifestJson.web_accessible_resources?.forEach((resource: any) => {
+    getResourceFiles(resource).forEach((value) => {
+      if (isCompiledScript(value)) {
+        scripts.push(value);
+      }
+    });
+  });
+
+  return scripts;
+}
+
+// Get every html page referenced by the manifest
+export function getManifestPages(manifestJson: any): string[] {
+  const pages: (string | undefined)[] = [
+    manifestJson.action?.default_popup,
+    manifestJson.page_action?.default_popup,
+    manifestJson.options_page,
+    manifestJson.options_ui?.page,
+    manifestJson.side_panel?.default_path,
+    manifestJson.sidebar_action?.default_panel,
+    manifestJson.devtools_page,
+    manifestJson.background?.page,
+    ...Object.values<string>(manifestJson.chrome_url_overrides || {}),
+    ...(manifestJson.sandbox?.pages || []),
+  ];
+
+  return [...new Set(pages.filter((page): page is string => typeof page === 'string').map(stripPage))];
+}
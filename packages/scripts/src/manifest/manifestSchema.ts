@@ -0,0 +1,239 @@
+// A small subset of JSON schema, just enough to describe the manifest
+export type SchemaNode =
+  | { type: 'any' }
+  | { type: 'boolean' }
+  | { type: 'number'; enum?: number[] }
+  | { type: 'string'; enum?: string[]; pattern?: RegExp; format?: 'matchPattern' | 'file' | 'script' | 'page' }
+  | { type: 'array'; items: SchemaNode }
+  | {
+      type: 'object';
+      properties?: Record<string, SchemaNode>;
+      additionalProperties?: SchemaNode;
+      required?: string[];
+    }
+  | { type: 'oneOf'; schemas: SchemaNode[] };
+
+const any: SchemaNode = { type: 'any' };
+const boolean: SchemaNode = { type: 'boolean' };
+const string: SchemaNode = { type: 'string' };
+const stringArray: SchemaNode = { type: 'array', items: string };
+
+// A file that is copied as is (icons, css, json)
+const file: SchemaNode = { type: 'string', format: 'file' };
+
+// A script that is compiled by webpack
+const script: SchemaNode = { type: 'string', format: 'script' };
+
+// An html page that is copied and has its scripts compiled by webpack
+const page: SchemaNode = { type: 'string', format: 'page' };
+
+const matchPatterns: SchemaNode = { type: 'array', items: { type: 'string', format: 'matchPattern' } };
+
+const icon: SchemaNode = {
+  type: 'oneOf',
+  schemas: [file, { type: 'object', additionalProperties: file }],
+};
+
+const action: SchemaNode = {
+  type: 'object',
+  properties: {
+    default_icon: icon,
+    default_title: string,
+    default_popup: page,
+    default_area: string,
+    theme_icons: any,
+    browser_style: boolean,
+  },
+};
+
+// The Manifest V3 keys understood by Chrome and Firefox, with the Manifest V2 forms the --manifest-version 2 build uses
+export const manifestSchema: SchemaNode = {
+  type: 'object',
+  required: ['manifest_version', 'name', 'version'],
+  properties: {
+    $schema: string,
+    manifest_version: { type: 'number', enum: [2, 3] },
+    name: string,
+    version: { type: 'string', pattern: /^\d+(\.\d+){0,3}$/ },
+    description: string,
+    short_name: string,
+    version_name: string,
+    author: any,
+    homepage_url: string,
+    default_locale: string,
+    key: string,
+    minimum_chrome_version: string,
+    update_url: string,
+    offline_enabled: boolean,
+    incognito: { type: 'string', enum: ['spanning', 'split', 'not_allowed'] },
+    icons: { type: 'object', additionalProperties: file },
+    action: action,
+    browser_action: action,
+    page_action: action,
+    sidebar_action: {
+      type: 'object',
+      properties: {
+        default_icon: icon,
+        default_title: string,
+        default_panel: page,
+        open_at_install: boolean,
+        browser_style: boolean,
+      },
+    },
+    background: {
+      type: 'object',
+      properties: {
+        service_worker: script,
+        scripts: { type: 'array', items: script },
+        page: page,
+        type: { type: 'string', enum: ['classic', 'module'] },
+        persistent: boolean,
+        preferred_environment: stringArray,
+      },
+    },
+    content_scripts: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['matches'],
+        properties: {
+          matches: matchPatterns,
+          exclude_matches: matchPatterns,
+          include_globs: stringArray,
+          exclude_globs: stringArray,
+          css: { type: 'array', items: file },
+          js: { type: 'array', items: script },
+          run_at: { type: 'string', enum: ['document_start', 'document_end', 'document_idle'] },
+          all_frames: boolean,
+          match_about_blank: boolean,
+          match_origin_as_fallback: boolean,
+          world: { type: 'string', enum: ['ISOLATED', 'MAIN'] },
+        },
+      },
+    },
+    permissions: stringArray,
+    optional_permissions: stringArray,
+    host_permissions: matchPatterns,
+    optional_host_permissions: matchPatterns,
+    web_accessible_resources: {
+      type: 'array',
+      items: {
+        type: 'oneOf',
+        schemas: [
+          // Manifest V2 lists the files, or globs of files
+          string,
+          {
+            type: 'object',
+            required: ['resources'],
+            properties: {
+              resources: stringArray,
+              matches: matchPatterns,
+              extension_ids: stringArray,
+              use_dynamic_url: boolean,
+            },
+          },
+        ],
+      },
+    },
+    options_page: page,
+    options_ui: {
+      type: 'object',
+      required: ['page'],
+      properties: {
+        page: page,
+        open_in_tab: boolean,
+        browser_style: boolean,
+      },
+    },
+    devtools_page: page,
+    side_panel: {
+      type: 'object',
+      properties: {
+        default_path: page,
+      },
+    },
+    chrome_url_overrides: {
+      type: 'object',
+      properties: {
+        newtab: page,
+        history: page,
+        bookmarks: page,
+      },
+    },
+    sandbox: {
+      type: 'object',
+      properties: {
+        pages: { type: 'array', items: page },
+        content_security_policy: string,
+      },
+    },
+    content_security_policy: {
+      type: 'oneOf',
+      schemas: [
+        // Manifest V2 has a single policy for the extension pages
+        string,
+        {
+          type: 'object',
+          properties: {
+            extension_pages: string,
+            sandbox: string,
+          },
+        },
+      ],
+    },
+    declarative_net_request: {
+      type: 'object',
+      properties: {
+        rule_resources: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['id', 'enabled', 'path'],
+            properties: {
+              id: string,
+              enabled: boolean,
+              path: file,
+            },
+          },
+        },
+      },
+    },
+    externally_connectable: {
+      type: 'object',
+      properties: {
+        ids: stringArray,
+        matches: matchPatterns,
+        accepts_tls_channel_id: boolean,
+      },
+    },
+    omnibox: {
+      type: 'object',
+      required: ['keyword'],
+      properties: {
+        keyword: string,
+      },
+    },
+    commands: { type: 'object', additionalProperties: any },
+    browser_specific_settings: any,
+    chrome_settings_overrides: any,
+    cross_origin_embedder_policy: any,
+    cross_origin_opener_policy: any,
+    developer: any,
+    dictionaries: any,
+    export: any,
+    file_browser_handlers: any,
+    file_handlers: any,
+    file_system_provider_capabilities: any,
+    import: any,
+    input_components: any,
+    oauth2: any,
+    protocol_handlers: any,
+    requirements: any,
+    storage: any,
+    system_indicator: any,
+    theme: any,
+    trial_tokens: any,
+    tts_engine: any,
+    user_scripts: any,
+  },
+};
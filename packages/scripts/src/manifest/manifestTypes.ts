@@ -0,0 +1,143 @@
+// Typings for a Manifest V3 manifest, see https://developer.chrome.com/docs/extensions/reference/manifest
+
+export type ManifestIcons = Record<string, string>;
+
+export interface ManifestAction {
+  default_icon?: string | ManifestIcons;
+  default_title?: string;
+  default_popup?: string;
+}
+
+export interface ManifestBackground {
+  service_worker?: string;
+  scripts?: string[];
+  type?: 'classic' | 'module';
+  persistent?: boolean;
+  preferred_environment?: ('service_worker' | 'document')[];
+}
+
+export interface ManifestContentScript {
+  matches: string[];
+  exclude_matches?: string[];
+  include_globs?: string[];
+  exclude_globs?: string[];
+  css?: string[];
+  js?: string[];
+  run_at?: 'document_start' | 'document_end' | 'document_idle';
+  all_frames?: boolean;
+  match_about_blank?: boolean;
+  match_origin_as_fallback?: boolean;
+  world?: 'ISOLATED' | 'MAIN';
+}
+
+export interface ManifestWebAccessibleResource {
+  resources: string[];
+  matches?: string[];
+  extension_ids?: string[];
+  use_dynamic_url?: boolean;
+}
+
+export interface ManifestCommand {
+  suggested_key?: {
+    default?: string;
+    windows?: string;
+    mac?: string;
+    chromeos?: string;
+    linux?: string;
+  };
+  description?: string;
+  global?: boolean;
+}
+
+export interface ManifestRuleResource {
+  id: string;
+  enabled: boolean;
+  path: string;
+}
+
+export interface Manifest {
+  manifest_version: 3;
+  name?: string;
+  version?: string;
+  description?: string;
+  short_name?: string;
+  version_name?: string;
+  author?: string | { email: string };
+  homepage_url?: string;
+  default_locale?: string;
+  key?: string;
+  minimum_chrome_version?: string;
+  update_url?: string;
+  offline_enabled?: boolean;
+  incognito?: 'spanning' | 'split' | 'not_allowed';
+  icons?: ManifestIcons;
+  action?: ManifestAction;
+  background?: ManifestBackground;
+  content_scripts?: ManifestContentScript[];
+  permissions?: string[];
+  optional_permissions?: string[];
+  host_permissions?: string[];
+  optional_host_permissions?: string[];
+  web_accessible_resources?: ManifestWebAccessibleResource[];
+  options_page?: string;
+  options_ui?: {
+    page: string;
+    open_in_tab?: boolean;
+  };
+  devtools_page?: string;
+  side_panel?: {
+    default_path?: string;
+  };
+  chrome_url_overrides?: {
+    newtab?: string;
+    history?: string;
+    bookmarks?: string;
+  };
+  sandbox?: {
+    pages: string[];
+    content_security_policy?: string;
+  };
+  content_security_policy?: {
+    extension_pages?: string;
+    sandbox?: string;
+  };
+  commands?: Record<string, ManifestCommand>;
+  declarative_net_request?: {
+    rule_resources: ManifestRuleResource[];
+  };
+  externally_connectable?: {
+    ids?: string[];
+    matches?: string[];
+    accepts_tls_channel_id?: boolean;
+  };
+  omnibox?: {
+    keyword: string;
+  };
+  oauth2?: {
+    client_id: string;
+    scopes: string[];
+  };
+  storage?: {
+    managed_schema: string;
+  };
+  browser_specific_settings?: {
+    gecko?: {
+      id?: string;
+      strict_min_version?: string;
+      strict_max_version?: string;
+      update_url?: string;
+    };
+    gecko_android?: {
+      strict_min_version?: string;
+      strict_max_version?: string;
+    };
+  };
+  sidebar_action?: {
+    default_panel: string;
+    default_icon?: string | ManifestIcons;
+    default_title?: string;
+    open_at_install?: boolean;
+  };
+  // Any other key is passed through as is and checked by the manifest validation
+  [key: string]: unknown;
+}
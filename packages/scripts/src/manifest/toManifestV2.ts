@@ -0,0 +1,127 @@
+import { getResourceFiles } from './manifestFields';
+
+// Manifest version of the build, the manifest is written in Manifest V3 and converted for --manifest-version 2
+export type ManifestVersion = 2 | 3;
+
+// Keys that only exist in Manifest V3 and have no Manifest V2 equivalent
+const manifestV3OnlyKeys = ['side_panel'];
+
+// Permissions of apis that only exist in Manifest V3
+const manifestV3OnlyPermissions = ['offscreen', 'sidePanel', 'userScripts'];
+
+// Convert the web_accessible_resources of Manifest V3 to the flat list of Manifest V2, which every page can load
+function toWebAccessibleResources(resources: any[], warnings: string[]) {
+  return resources.flatMap((resource) => {
+    const files = getResourceFiles(resource);
+
+    if (typeof resource === 'string' || !files.length) {
+      return files;
+    }
+
+    const matches: string[] = resource.matches || [];
+
+    if (resource.extension_ids?.length || matches.some((match) => match !== '<all_urls>')) {
+      warnings.push(
+        `web_accessible_resources ${files.join(', ')} are accessible to every page and extension in Manifest V2, not only to their matches and extension_ids`,
+      );
+    }
+
+    if (resource.use_dynamic_url) {
+      warnings.push('web_accessible_resources use_dynamic_url is only supported in Manifest V3 and was removed');
+    }
+
+    return files;
+  });
+}
+
+// Convert a Manifest V3 manifest to Manifest V2, for Firefox ESR and older Chromium based browsers.
+// Features without a Manifest V2 equivalent are removed and added to the warnings.
+export function toManifestV2(manifestJson: any, warnings: string[]) {
+  manifestJson.manifest_version = 2;
+
+  if (manifestJson.action) {
+    manifestJson.browser_action = manifestJson.action;
+    delete manifestJson.action;
+  }
+
+  // Manifest V2 runs the background in a page, the same file works as a background script
+  if (manifestJson.background?.service_worker) {
+    const { service_worker, type, ...background } = manifestJson.background;
+    manifestJson.background = { ...background, scripts: [service_worker] };
+  } else if (manifestJson.background?.type === 'module') {
+    // The scripts are bundled by webpack, they don't need to be loaded as modules
+    delete manifestJson.background.type;
+  }
+
+  // Manifest V2 lists the hosts with the permissions
+  if (manifestJson.host_permissions) {
+    manifestJson.permissions = [...new Set([...(manifestJson.permissions || []), ...manifestJson.host_permissions])];
+    delete manifestJson.host_permissions;
+  }
+
+  if (manifestJson.optional_host_permissions) {
+    manifestJson.optional_permissions = [
+      ...new Set([...(manifestJson.optional_permissions || []), ...manifestJson.optional_host_permissions]),
+    ];
+    delete manifestJson.optional_host_permissions;
+  }
+
+  if (manifestJson.permissions) {
+    manifestJson.permissions = manifestJson.permissions.filter((permission: string) => {
+      if (manifestV3OnlyPermissions.includes(permission)) {
+        warnings.push(`The ${permission} permission is only available in Manifest V3 and was removed`);
+        return false;
+      }
+
+      return true;
+    });
+  }
+
+  if (manifestJson.web_accessible_resources) {
+    manifestJson.web_accessible_resources = [
+      ...new Set(toWebAccessibleResources(manifestJson.web_accessible_resources, warnings)),
+    ];
+  }
+
+  // Manifest V2 has a single policy for the extension pages, the policy of the sandbox moves to the sandbox key
+  if (manifestJson.content_security_policy && typeof manifestJson.content_security_policy === 'object') {
+    const { extension_pages, sandbox } = manifestJson.content_security_policy;
+
+    if (extension_pages) {
+      manifestJson.content_security_policy = extension_pages;
+    } else {
+      delete manifestJson.content_security_policy;
+    }
+
+    if (sandbox && manifestJson.sandbox) {
+      manifestJson.sandbox = { ...manifestJson.sandbox, content_security_policy: sandbox };
+    } else if (sandbox) {
+      warnings.push('content_security_policy.sandbox was removed, Manifest V2 only has a policy for sandbox.pages');
+    }
+  }
+
+  // The shortcut that opens the popup is named after the browser action
+  if (manifestJson.commands?._execute_action) {
+    const { _execute_action, ...commands } = manifestJson.commands;
+    manifestJson.commands = { ...commands, _execute_browser_action: _execute_action };
+  }
+
+  manifestJson.content_scripts?.forEach((contentScript: any) => {
+    if (contentScript.world === 'MAIN') {
+      warnings.push(
+        `content_scripts ${(contentScript.js || []).join(', ')} can't run in the MAIN world in Manifest V2, they run in the isolated world`,
+      );
+    }
+
+    delete contentScript.world;
+  });
+
+  manifestV3OnlyKeys.forEach((key) => {
+    if (manifestJson[key] !== undefined) {
+      warnings.push(`${key} is only available in Manifest V3 and was removed`);
+      delete manifestJson[key];
+    }
+  });
+
+  return manifestJson;
+}
@@ -0,0 +1,76 @@
+import { Target } from '../utils/targets';
+
+// Keys that only Chrome understands and Firefox either rejects or warns about
+const chromeOnlyKeys = [
+  'key',
+  'minimum_chrome_version',
+  'side_panel',
+  'oauth2',
+  'update_url',
+  'offline_enabled',
+  'import',
+  'export',
+  'storage',
+  'trial_tokens',
+  'differential_fingerprint',
+];
+
+// Permissions that only Chrome understands
+const chromeOnlyPermissions = ['offscreen', 'sidePanel', 'tabGroups', 'readingList', 'debugger'];
+
+// Keys that only Firefox understands
+const firefoxOnlyKeys = ['browser_specific_settings'];
+
+// Build a gecko id from the package name when the manifest doesn't provide one
+function getGeckoId(packageName: string) {
+  const name = packageName.replace(/^@/, '').replace(/[^a-zA-Z0-9-._]/g, '-');
+  return `${name}@browser-ext`;
+}
+
+function toFirefoxManifest(manifestJson: any, packageJson: any) {
+  chromeOnlyKeys.forEach((key) => {
+    delete manifestJson[key];
+  });
+
+  if (manifestJson.permissions) {
+    manifestJson.permissions = manifestJson.permissions.filter(
+      (permission: string) => !chromeOnlyPermissions.includes(permission),
+    );
+  }
+
+  // Firefox doesn't support background service workers, so run the same file as a background script
+  if (manifestJson.background?.service_worker) {
+    const { service_worker, ...background } = manifestJson.background;
+    manifestJson.background = { ...background, scripts: [service_worker] };
+  }
+
+  // Firefox requires an add-on id to use storage, identity and to be signed
+  if (!manifestJson.browser_specific_settings?.gecko?.id) {
+    manifestJson.browser_specific_settings = {
+      ...manifestJson.browser_specific_settings,
+      gecko: {
+        ...manifestJson.browser_specific_settings?.gecko,
+        id: getGeckoId(packageJson.name),
+      },
+    };
+  }
+
+  return manifestJson;
+}
+
+function toChromeManifest(manifestJson: any) {
+  firefoxOnlyKeys.forEach((key) => {
+    delete manifestJson[key];
+  });
+
+  return manifestJson;
+}
+
+// Transform the manifest into the format the target browser expects
+export function transformManifest(manifestJson: any, target: Target, packageJson: any) {
+  if (target === 'firefox') {
+    return toFirefoxManifest(manifestJson, packageJson);
+  }
+
+  return toChromeManifest(manifestJson);
+}
@@ -0,0 +1,231 @@
+import path from 'path';
+import fs from 'fs-extra';
+
+import { scriptExtensions } from './manifestFields';
+import { manifestSchema, SchemaNode } from './manifestSchema';
+
+// Where the files referenced by the manifest are looked up, the extension root and the files emitted by the build
+interface ManifestFiles {
+  root: string;
+  emitted: Set<string>;
+}
+
+export interface ManifestIssue {
+  path: string;
+  message: string;
+}
+
+// <all_urls> or <scheme>://<host>/<path>, see https://developer.chrome.com/docs/extensions/develop/concepts/match-patterns
+const matchPatternRegex = /^(\*|https?|wss?|ftp|urn|file):\/\/(\*|\*\.[^/*]+|[^/*]+)?(\/.*)$/;
+
+function joinPath(parent: string, key: string | number) {
+  if (typeof key === 'number') {
+    return `${parent}[${key}]`;
+  }
+
+  return parent ? `${parent}.${key}` : key;
+}
+
+function getTypeOf(value: unknown) {
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+
+  if (value === null) {
+    return 'null';
+  }
+
+  return typeof value;
+}
+
+// Levenshtein distance, used to suggest the key that was probably meant
+function getDistance(a: string, b: string) {
+  const distances = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    let previous = distances[0]!;
+    distances[0] = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const current = distances[j]!;
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      distances[j] = Math.min(distances[j]! + 1, distances[j - 1]! + 1, previous + cost);
+      previous = current;
+    }
+  }
+
+  return distances[b.length]!;
+}
+
+function getSuggestion(key: string, candidates: string[]) {
+  const suggestion = candidates
+    .map((candidate) => ({ candidate, distance: getDistance(key, candidate) }))
+    .filter(({ distance }) => distance <= 3)
+    .sort((a, b) => a.distance - b.distance)[0];
+
+  return suggestion ? `, did you mean "${suggestion.candidate}"?` : '';
+}
+
+function getMatchPatternError(pattern: string) {
+  if (pattern === '<all_urls>') {
+    return null;
+  }
+
+  const match = pattern.match(matchPatternRegex);
+
+  if (!match) {
+    return `"${pattern}" is not a valid match pattern, expected <scheme>://<host>/<path> or <all_urls>`;
+  }
+
+  const [, scheme, host] = match;
+
+  if (!host && scheme !== 'file') {
+    return `"${pattern}" is missing a host`;
+  }
+
+  return null;
+}
+
+function getFileError(value: string, format: 'file' | 'script' | 'page', files: ManifestFiles) {
+  // Localized messages and remote urls aren't files
+  if (value.startsWith('__MSG_') || /^[a-z]+:\/\//.test(value)) {
+    return null;
+  }
+
+  // Files generated by the build or copied from the public folder, like the icons generated from a single image
+  if (files.emitted.has(value.replace(/^\//, ''))) {
+    return null;
+  }
+
+  const filePath = path.join(files.root, value.replace(/[?#].*$/, ''));
+
+  // Scripts are referenced as .js in the built manifest but may be written in TypeScript or JSX
+  if (format === 'script') {
+    const parsed = path.parse(filePath);
+    const candidates = scriptExtensions.map((ext) => path.join(parsed.dir, parsed.name + ext));
+
+    if (candidates.some((candidate) => fs.existsSync(candidate))) {
+      return null;
+    }
+  } else if (fs.existsSync(filePath)) {
+    return null;
+  }
+
+  // Files that aren't built, like rulesets, are usually copied from the public folder
+  return format === 'file'
+    ? `"${value}" does not exist, nor public/${value.replace(/^\//, '')}`
+    : `"${value}" does not exist`;
+}
+
+function validateNode(
+  value: unknown,
+  schema: SchemaNode,
+  jsonPath: string,
+  files: ManifestFiles,
+  issues: ManifestIssue[],
+) {
+  const type = getTypeOf(value);
+
+  switch (schema.type) {
+    case 'any':
+      return;
+
+    case 'oneOf': {
+      // Use the first schema that matches, otherwise report the errors of the last one
+      const results = schema.schemas.map((node) => {
+        const nodeIssues: ManifestIssue[] = [];
+        validateNode(value, node, jsonPath, files, nodeIssues);
+        return nodeIssues;
+      });
+
+      if (!results.some((nodeIssues) => !nodeIssues.length)) {
+        issues.push(...results[results.length - 1]!);
+      }
+      return;
+    }
+
+    case 'boolean':
+    case 'number':
+    case 'string':
+    case 'array':
+    case 'object':
+      if (type !== schema.type) {
+        issues.push({ path: jsonPath, message: `Expected ${schema.type} but received ${type}` });
+        return;
+      }
+  }
+
+  if (schema.type === 'number' && schema.enum && !schema.enum.includes(value as number)) {
+    issues.push({ path: jsonPath, message: `Expected one of ${schema.enum.join(', ')} but received ${value}` });
+  }
+
+  if (schema.type === 'string') {
+    const string = value as string;
+
+    if (schema.enum && !schema.enum.includes(string)) {
+      const expected = schema.enum.map((option) => `"${option}"`).join(', ');
+      issues.push({
+        path: jsonPath,
+        message: `Expected one of ${expected} but received "${string}"${getSuggestion(string, schema.enum)}`,
+      });
+    }
+
+    if (schema.pattern && !schema.pattern.test(string)) {
+      issues.push({ path: jsonPath, message: `"${string}" does not match ${schema.pattern}` });
+    }
+
+    if (schema.format === 'matchPattern') {
+      const error = getMatchPatternError(string);
+
+      if (error) {
+        issues.push({ path: jsonPath, message: error });
+      }
+    } else if (schema.format) {
+      const error = getFileError(string, schema.format, files);
+
+      if (error) {
+        issues.push({ path: jsonPath, message: error });
+      }
+    }
+  }
+
+  if (schema.type === 'array') {
+    (value as unknown[]).forEach((item, index) => {
+      validateNode(item, schema.items, joinPath(jsonPath, index), files, issues);
+    });
+  }
+
+  if (schema.type === 'object') {
+    const object = value as Record<string, unknown>;
+    const properties = schema.properties || {};
+
+    schema.required?.forEach((key) => {
+      if (object[key] === undefined) {
+        issues.push({ path: joinPath(jsonPath, key), message: 'Missing required key' });
+      }
+    });
+
+    Object.entries(object).forEach(([key, child]) => {
+      const childSchema = properties[key] || schema.additionalProperties;
+
+      if (!childSchema) {
+        issues.push({
+          path: joinPath(jsonPath, key),
+          message: `Unknown key "${key}"${getSuggestion(key, Object.keys(properties))}`,
+        });
+        return;
+      }
+
+      validateNode(child, childSchema, joinPath(jsonPath, key), files, issues);
+    });
+  }
+}
+
+// Validate a built manifest against the Manifest V3 schema, files are resolved from root or the emitted files
+export function validateManifest(manifestJson: unknown, root: string, emitted: string[] = []) {
+  const issues: ManifestIssue[] = [];
+
+  validateNode(manifestJson, manifestSchema, '', { root, emitted: new Set(emitted) }, issues);
+
+  return issues;
+}
@@ -1,23 +1,57 @@
 import webpack from 'webpack';
 
+import { BrowserExtConfig } from '../config/defineConfig';
+import { loadManifest } from '../manifest/loadManifest';
+import { ManifestVersion } from '../manifest/toManifestV2';
+import { checkBudgets, createBundleReport, writeBundleReport } from '../utils/bundleReport';
+import { Target } from '../utils/targets';
+import { typeCheck } from '../utils/typeCheck';
 import { getConfig } from '../webpack/getConfig';
 import { getEntries } from '../webpack/getEntries';
 
-export function build() {
-  return new Promise<void>((resolve, reject) => {
-    console.log('Running build...');
+export async function build(options: {
+  targets: Target[];
+  userConfig: BrowserExtConfig;
+  typecheck: boolean;
+  analyze?: boolean;
+  variant?: string;
+  manifestVersion?: ManifestVersion;
+}) {
+  console.log('Running build...');
 
-    // Get all entry points from manifest and HTML files
-    const entries = getEntries();
+  // The entries of each target, used to report the size of every entry
+  const entriesByTarget: Partial<Record<Target, ReturnType<typeof getEntries>>> = {};
 
-    // Create webpack config in production mode
-    const config = getConfig({
-      entry: entries,
-      mode: 'production',
-    });
+  // Create a webpack config in production mode for each target
+  const configs = await Promise.all(
+    options.targets.map(async (target) => {
+      // Load the manifest of the target, manifest.ts can differ per target
+      const manifestJson = await loadManifest({
+        mode: 'production',
+        target: target,
+        variant: options.variant,
+        userConfig: options.userConfig,
+      });
 
+      // Get all entry points from manifest and HTML files
+      const entries = getEntries(manifestJson, options.userConfig.outDir);
+      entriesByTarget[target] = entries;
+
+      return getConfig({
+        target: target,
+        variant: options.variant,
+        manifestVersion: options.manifestVersion,
+        userConfig: options.userConfig,
+        manifestJson: manifestJson,
+        entry: entries,
+        mode: 'production',
+      });
+    }),
+  );
+
+  const compile = new Promise<webpack.MultiStats>((resolve, reject) => {
     // Create webpack compiler
-    const compiler = webpack(config);
+    const compiler = webpack(configs);
 
     // Run the compiler
     compiler.run((err, stats) => {
@@ -57,8 +91,33 @@ export function build() {
           reject(closeErr);
           return;
         }
-        resolve();
+        resolve(stats!);
       });
     });
   });
+
+  // Type-check in parallel with webpack, babel only strips the types
+  const [typeErrorCount, stats] = await Promise.all([options.typecheck ? typeCheck() : 0, compile]);
+
+  let overBudgetCount = 0;
+
+  stats.stats.forEach((targetStats) => {
+    // Every config is named after its target
+    const target = targetStats.compilation.name as Target;
+    const report = createBundleReport(target, targetStats, entriesByTarget[target]!);
+
+    if (options.analyze) {
+      writeBundleReport(report, options.userConfig.outDir, options.variant, options.manifestVersion);
+    }
+
+    overBudgetCount += checkBudgets(report, options.userConfig.budgets);
+  });
+
+  if (typeErrorCount) {
+    throw new Error(`Build failed with ${typeErrorCount} type error(s)`);
+  }
+
+  if (overBudgetCount) {
+    throw new Error(`Build failed with ${overBudgetCount} entry(s) over their size budget`);
+  }
 }
@@ -1,12 +1,22 @@
+import { BrowserExtConfig } from '../config/defineConfig';
+import { ManifestVersion } from '../manifest/toManifestV2';
+import { Target } from '../utils/targets';
 import { build } from './build';
 import { zip } from './zip';
 
-export async function buildAndZip() {
+export async function buildAndZip(options: {
+  targets: Target[];
+  userConfig: BrowserExtConfig;
+  typecheck: boolean;
+  variant?: string;
+  manifestVersion?: ManifestVersion;
+  sourceMaps: boolean;
+}) {
   console.log('Building and creating zip...');
 
   // First build the extension
-  await build();
+  await build(options);
 
   // Then create the zip file
-  await zip();
+  await zip(options);
 }
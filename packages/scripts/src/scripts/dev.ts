@@ -1,16 +1,97 @@
+import { ChildProcess } from 'child_process';
+import { IncomingMessage } from 'http';
+import path from 'path';
 import getPort, { portNumbers } from 'get-port';
 import webpack from 'webpack';
 import { WebSocket, WebSocketServer } from 'ws';
 
+import { BrowserExtConfig } from '../config/defineConfig';
+import { getManifestPaths, loadManifest } from '../manifest/loadManifest';
+import { ManifestVersion } from '../manifest/toManifestV2';
+import {
+  BuildProblem,
+  ClientMessage,
+  createSessionToken,
+  Envelope,
+  isAuthorizedClient,
+  protocolVersion,
+  ServerMessage,
+} from '../utils/devProtocol';
+import { formatBytes } from '../utils/formatBytes';
+import { launchBrowser } from '../utils/launchBrowser';
 import Logger from '../utils/logger';
+import { pathToBrowserExt, pathToBuild, pathToTargetBuild } from '../utils/pathToBrowserExt';
+import { Target } from '../utils/targets';
+import { watchTypeCheck } from '../utils/typeCheck';
+import { getAffectedEntries } from '../webpack/getAffectedEntries';
 import { getConfig } from '../webpack/getConfig';
 import { getEntries } from '../webpack/getEntries';
 
+interface DevOptions {
+  port: number;
+  reload: boolean;
+  hot: boolean;
+  forwardLogs: boolean;
+  reinjectContentScripts: boolean;
+  open: boolean;
+  startUrls: string[];
+  typecheck: boolean;
+  verbose: boolean;
+  targets: Target[];
+  variant?: string;
+  manifestVersion?: ManifestVersion;
+  userConfig: BrowserExtConfig;
+}
+
+type Entries = ReturnType<typeof getEntries>;
+
+// Token baked into the banners of this session, clients without it can't connect
+const sessionToken = createSessionToken();
+
 // Track WebSocket connections and webpack watcher
 let wss: WebSocketServer | null = null;
-let webpackWatcher: webpack.Watching | null = null;
+let webpackWatcher: ReturnType<webpack.MultiCompiler['watch']> | null = null;
+
+// Track the entries of every target and whether the webpack watcher is being restarted
+let entries: Entries = { background: {}, contentScript: {}, extensionPage: {} };
+let restartInProgress: Promise<boolean> | null = null;
+
+// Track the tsc process type-checking in watch mode
+let typeCheckProcess: ChildProcess | null = null;
+
+// Track the browsers opened with --open, they're launched once the first build is done
+let browsers: ChildProcess[] = [];
+let browsersOpened = false;
+
+// Track the errors and warnings of the last build, pages that open later show them as well
+let buildProblems: { errors: BuildProblem[]; warnings: BuildProblem[] } = { errors: [], warnings: [] };
+
+// Print a log forwarded by a banner, tagged with where it comes from (background, content@<url> or the page name)
+function printForwardedLog(data: string) {
+  try {
+    const log: Envelope<ClientMessage> = JSON.parse(data);
+
+    if (log.version !== protocolVersion || log.type !== 'log') {
+      return;
+    }
+
+    const message = `[${log.context}] ${log.message}`;
+
+    if (log.level === 'error') {
+      Logger.error(message);
+    } else if (log.level === 'warn') {
+      Logger.warn(message);
+    } else if (log.level === 'debug') {
+      Logger.debug(message);
+    } else {
+      Logger.info(message);
+    }
+  } catch (error) {
+    Logger.warn(`Received an invalid message from a client: ${data}`);
+  }
+}
 
-async function setupWebSocketServer(preferredPort: number): Promise<number> {
+async function setupWebSocketServer(preferredPort: number, forwardLogs: boolean): Promise<number> {
   if (wss) {
     wss.close();
     wss = null;
@@ -20,132 +101,449 @@ async function setupWebSocketServer(preferredPort: number): Promise<number> {
   const ports = [preferredPort, ...portNumbers(preferredPort + 1, preferredPort + 100)];
   const availablePort = await getPort({ port: ports });
 
-  wss = new WebSocketServer({ port: availablePort });
+  let hasRejectedClient = false;
+
+  wss = new WebSocketServer({
+    port: availablePort,
+    // Only accept the banners of this session, any web page could connect to localhost otherwise
+    verifyClient: ({ req }: { req: IncomingMessage }) => {
+      if (isAuthorizedClient(req.url, sessionToken)) {
+        return true;
+      }
+
+      if (!hasRejectedClient) {
+        hasRejectedClient = true;
+        Logger.warn('Rejected a WebSocket client without a valid token, reload extensions built by a previous session');
+      }
+
+      return false;
+    },
+  });
 
   wss.on('connection', (ws) => {
     ws.on('error', (error) => {
       Logger.error('WebSocket error:', error);
     });
+
+    if (forwardLogs) {
+      ws.on('message', (data) => printForwardedLog(data.toString()));
+    }
+
+    if (buildProblems.errors.length || buildProblems.warnings.length) {
+      sendToClient(ws, { type: 'errors', ...buildProblems });
+    }
   });
 
   Logger.info(`WebSocket server started on port ${availablePort}`);
   return availablePort;
 }
 
-function notifyClientsToReload(changedFiles: string[], entries: ReturnType<typeof getEntries>) {
+// Open a browser for every target with its dev build loaded
+function openBrowsers(options: DevOptions) {
+  const startUrls = options.startUrls.length ? options.startUrls : options.userConfig.open?.startUrls || [];
+
+  options.targets.forEach((target) => {
+    const buildPath = pathToTargetBuild(
+      target,
+      true,
+      options.userConfig.outDir,
+      options.variant,
+      options.manifestVersion,
+    );
+    const browser = launchBrowser(target, buildPath, options.userConfig, startUrls);
+
+    if (browser) {
+      const forget = () => {
+        browsers = browsers.filter((other) => other !== browser);
+      };
+
+      browsers.push(browser);
+      browser.on('exit', forget);
+      browser.on('error', forget);
+    }
+  });
+}
+
+function sendToClient(client: WebSocket, message: ServerMessage) {
+  const envelope: Envelope<ServerMessage> = { ...message, version: protocolVersion };
+
+  if (client.readyState === WebSocket.OPEN) {
+    client.send(JSON.stringify(envelope));
+  }
+}
+
+function sendToClients(message: ServerMessage) {
+  wss?.clients.forEach((client) => sendToClient(client, message));
+}
+
+// Send the errors and warnings of the last build to the overlay, an empty list clears it
+function notifyClientsOfProblems(problems: typeof buildProblems) {
+  const hadProblems = buildProblems.errors.length || buildProblems.warnings.length;
+  buildProblems = problems;
+
+  if (hadProblems || problems.errors.length || problems.warnings.length) {
+    sendToClients({ type: 'errors', ...problems });
+  }
+}
+
+// Get the file, line and message of a webpack error or warning, without terminal colors
+function getBuildProblem(target: string, error: webpack.StatsError): BuildProblem {
+  const message = error.message.replace(/\u001b\[[0-9;]*m/g, '');
+  const line = (error.loc || message.match(/\((\d+):\d+\)/)?.[1])?.match(/^\d+/)?.[0];
+
+  return {
+    target: target,
+    file: error.moduleName?.replace(/^\.\//, '') || error.file,
+    line: line ? Number(line) : undefined,
+    message: message,
+  };
+}
+
+function notifyClientsToReload(
+  affectedEntries: string[],
+  entries: Entries,
+  canHotUpdate: boolean,
+  reinjectContentScripts: boolean,
+) {
   if (!wss) {
     return;
   }
 
-  // Determine which entry types have changed
-  const backgroundChanged = Object.keys(entries.background).some((entry) =>
-    changedFiles.some((file) => file.includes(entry)),
-  );
+  // Determine which entries of each type have changed
+  const background = affectedEntries.filter((entry) => entry in entries.background);
+  const contentScripts = affectedEntries.filter((entry) => entry in entries.contentScript);
+  const extensionPages = affectedEntries.filter((entry) => entry in entries.extensionPage);
+
+  if (!background.length && contentScripts.length && reinjectContentScripts) {
+    // If only content scripts changed, they clean up and ask the background to inject their new version
+    sendToClients({ type: 'reload', scope: 'content', entries: contentScripts });
+    Logger.info(`Sent re-inject signal to content scripts: ${contentScripts.join(', ')}`);
+  } else if (background.length || contentScripts.length) {
+    // If background or content scripts changed, reload the extension and then the affected content scripts.
+    // A new background can't talk to the old content scripts, so they all reload when the background changed.
+    const reloadContentScripts = background.length ? Object.keys(entries.contentScript) : contentScripts;
+
+    sendToClients({ type: 'reload', scope: 'background', entries: Object.keys(entries.background) });
+    Logger.info('Sent reload signal to background script');
+
+    // Add a small delay before reloading content scripts
+    setTimeout(() => {
+      sendToClients({ type: 'reload', scope: 'content', entries: reloadContentScripts });
+      Logger.info(`Sent reload signal to content scripts: ${reloadContentScripts.join(', ')}`);
+    }, 500); // Half a second delay to ensure background loads first
+  } else if (extensionPages.length && canHotUpdate) {
+    // If only modules of extension pages changed, let the pages apply a hot update and reload if they can't
+    sendToClients({ type: 'hot-update', entries: extensionPages });
+    Logger.info(`Sent hot update signal to extension pages: ${extensionPages.join(', ')}`);
+  } else if (extensionPages.length) {
+    // If only extension pages changed, reload only those
+    sendToClients({ type: 'reload', scope: 'page', entries: extensionPages });
+    Logger.info(`Sent reload signal to extension pages: ${extensionPages.join(', ')}`);
+  }
+}
 
-  const contentScriptChanged = Object.keys(entries.contentScript).some((entry) =>
-    changedFiles.some((file) => file.includes(entry)),
-  );
+// Get the entries affected by the last compilation of every target and whether only modules changed
+function getChangedEntries(multiStats: webpack.MultiStats) {
+  const affectedEntries = new Set<string>();
+  let onlyModulesChanged = true;
 
-  const extensionPageChanged = Object.keys(entries.extensionPage).some((entry) =>
-    changedFiles.some((file) => file.includes(entry)),
-  );
+  multiStats.stats.forEach((stats) => {
+    const { entries: changedEntries, pageEntries, otherFiles } = getAffectedEntries(stats.compilation);
 
-  wss.clients.forEach((client) => {
-    if (client.readyState === WebSocket.OPEN) {
-      if (backgroundChanged || contentScriptChanged) {
-        // If background or content scripts changed, reload both in sequence
-        client.send('reload-background');
-        Logger.info('Sent reload signal to background script');
-
-        // Add a small delay before reloading content scripts
-        setTimeout(() => {
-          client.send('reload-content');
-          Logger.info('Sent reload signal to content scripts');
-        }, 500); // 1 second delay to ensure background loads first
-      } else if (extensionPageChanged) {
-        // If only extension page changed, reload only that
-        client.send('reload-page');
-        Logger.info('Sent reload signal to extension pages');
-      }
+    changedEntries.forEach((entry) => affectedEntries.add(entry));
+
+    // The html pages and the files they reference can't be hot updated, their pages are reloaded
+    pageEntries.forEach((entry) => affectedEntries.add(entry));
+
+    if (pageEntries.length || otherFiles.length) {
+      onlyModulesChanged = false;
+    }
+
+    // Html pages aren't modules, so reload every page when one of them changed
+    if (otherFiles.some((file) => file.endsWith('.html'))) {
+      Object.keys(entries.extensionPage).forEach((entry) => affectedEntries.add(entry));
+    }
+
+    // Any other file (manifest, locales, icons, content script css) needs the whole extension to reload
+    if (otherFiles.some((file) => !file.endsWith('.html'))) {
+      Object.keys(entries.background).forEach((entry) => affectedEntries.add(entry));
     }
   });
+
+  return { affectedEntries: [...affectedEntries], onlyModulesChanged };
 }
 
-export async function dev(options: { port: number; reload: boolean; verbose: boolean }) {
-  Logger.info('Starting development build...');
+// Create a webpack config in development mode for each target, along with the entries of every target
+async function getDevConfigs(options: DevOptions, port: number) {
+  const entries: Entries = { background: {}, contentScript: {}, extensionPage: {} };
+
+  const configs = await Promise.all(
+    options.targets.map(async (target) => {
+      // Load the manifest of the target, manifest.ts can differ per target
+      const manifestJson = await loadManifest({
+        mode: 'development',
+        target: target,
+        variant: options.variant,
+        userConfig: options.userConfig,
+      });
+      const targetEntries = getEntries(manifestJson, options.userConfig.outDir);
+
+      Object.assign(entries.background, targetEntries.background);
+      Object.assign(entries.contentScript, targetEntries.contentScript);
+      Object.assign(entries.extensionPage, targetEntries.extensionPage);
+
+      return getConfig({
+        target: target,
+        variant: options.variant,
+        manifestVersion: options.manifestVersion,
+        userConfig: options.userConfig,
+        manifestJson: manifestJson,
+        entry: targetEntries,
+        mode: 'development',
+        port: port,
+        token: sessionToken,
+        reload: options.reload,
+        hot: options.hot,
+        forwardLogs: options.forwardLogs,
+        reinjectContentScripts: options.reinjectContentScripts,
+      });
+    }),
+  );
 
-  let actualPort = options.port;
+  return { configs, entries };
+}
 
-  // Only start WebSocket server if auto reload is enabled
-  if (options.reload !== false) {
-    actualPort = await setupWebSocketServer(options.port);
+// Describe the entries that were added or removed, e.g. "+ src/options/index (extensionPage)"
+function getEntriesChanges(previous: Entries, next: Entries) {
+  const changes: string[] = [];
+
+  (Object.keys(next) as (keyof Entries)[]).forEach((type) => {
+    Object.keys(next[type])
+      .filter((name) => !(name in previous[type]))
+      .forEach((name) => changes.push(`+ ${name} (${type})`));
+
+    Object.keys(previous[type])
+      .filter((name) => !(name in next[type]))
+      .forEach((name) => changes.push(`- ${name} (${type})`));
+  });
+
+  return changes;
+}
+
+// Get the manifest and html files that changed since the last compilation
+function getChangedEntrySources(multiStats: webpack.MultiStats, variant: string | undefined) {
+  const manifestPaths = getManifestPaths(variant);
+
+  const modifiedFiles = multiStats.stats.flatMap((stats) => [...(stats.compilation.compiler.modifiedFiles || [])]);
+
+  return [...new Set(modifiedFiles)].filter((file) => manifestPaths.includes(file) || file.endsWith('.html'));
+}
+
+// Resolve the entries again and restart the webpack watcher if the manifest or the entries changed, resolves with
+// whether the watcher was restarted
+async function restartWebpackWatcher(options: DevOptions, port: number, changedFiles: string[]) {
+  // Builds finishing during a restart wait for it, the new watcher builds their changes again
+  if (!restartInProgress) {
+    restartInProgress = resolveEntriesAndRestart(options, port, changedFiles).finally(() => {
+      restartInProgress = null;
+    });
   }
 
-  const entries = getEntries();
+  return restartInProgress;
+}
+
+async function resolveEntriesAndRestart(options: DevOptions, port: number, changedFiles: string[]) {
+  const relativeFiles = changedFiles.map((file) => path.relative(pathToBrowserExt.root, file));
+  Logger.info(`Changed ${relativeFiles.join(', ')}, resolving entries...`);
+
+  try {
+    const devConfigs = await getDevConfigs(options, port);
+    const changes = getEntriesChanges(entries, devConfigs.entries);
+    const manifestChanged = getManifestPaths(options.variant).some((file) => changedFiles.includes(file));
+
+    if (!changes.length && !manifestChanged) {
+      Logger.info('Entries are unchanged');
+      return false;
+    }
+
+    changes.forEach((change) => {
+      Logger.info(`Entry ${change}`);
+    });
 
-  const config = getConfig({
-    entry: entries,
-    mode: 'development',
-    port: actualPort,
-    reload: options.reload,
+    Logger.info('Restarting webpack watcher...');
+
+    await new Promise<void>((resolve) => {
+      if (webpackWatcher) {
+        webpackWatcher.close(() => resolve());
+      } else {
+        resolve();
+      }
+    });
+
+    startWebpackWatcher(options, port, devConfigs);
+    return true;
+  } catch (error) {
+    Logger.error('Failed to resolve entries, keeping the previous ones', error as Error);
+    return false;
+  }
+}
+
+function startWebpackWatcher(options: DevOptions, port: number, devConfigs: Awaited<ReturnType<typeof getDevConfigs>>) {
+  entries = devConfigs.entries;
+
+  const compiler = webpack(devConfigs.configs);
+
+  // Let the clients know a rebuild started as soon as a file changes
+  compiler.hooks.invalid.tap('browser-ext', () => {
+    sendToClients({ type: 'build-start' });
   });
 
-  webpackWatcher = webpack(config).watch(
+  webpackWatcher = compiler.watch(
     {
       aggregateTimeout: 300,
-      ignored: ['**/node_modules/**', '**/build/**', '**/dist/**', '**/.git/**'],
+      ignored: [
+        '**/node_modules/**',
+        '**/build/**',
+        '**/dist/**',
+        '**/.git/**',
+        `${pathToBuild(options.userConfig.outDir)}/**`,
+      ],
     },
-    (err, stats) => {
+    (err, multiStats) => {
       if (err) {
         Logger.error('Webpack fatal error', err);
         return;
       }
 
-      if (!stats) {
+      if (!multiStats) {
         Logger.error('No stats returned from webpack');
         return;
       }
 
-      const info = stats.toJson();
-
-      // Handle errors
-      if (stats.hasErrors()) {
-        info.errors?.forEach((error) => {
-          Logger.error('Build error', error);
-        });
+      // The watcher was replaced while building, the new one reports its own builds
+      if (webpackWatcher?.compiler !== compiler) {
         return;
       }
 
-      // Handle warnings
-      if (stats.hasWarnings()) {
-        info.warnings?.forEach((warning) => {
-          Logger.warn(warning.message || JSON.stringify(warning));
+      // New content scripts or pages need new entries, which means a new webpack watcher. Its first build reloads
+      // the clients, so this build only reports and reloads if the watcher is kept.
+      const changedEntrySources = getChangedEntrySources(multiStats, options.variant);
+
+      if (changedEntrySources.length) {
+        restartWebpackWatcher(options, port, changedEntrySources).then((restarted) => {
+          if (!restarted) {
+            handleBuild(options, multiStats);
+          }
         });
+        return;
       }
 
-      // Get list of changed files
-      const changedFiles =
-        info.chunks
-          ?.filter((chunk) => chunk.modules?.some((module) => module.moduleType === 'javascript/auto'))
-          .flatMap((chunk) => chunk.modules?.map((module) => module.nameForCondition || '') || [])
-          .filter((name) => name) || [];
+      handleBuild(options, multiStats);
+    },
+  );
+}
 
-      // Log successful build
-      Logger.success(`Build completed in ${info.time}ms`);
+// Log the result of a build and reload the clients whose entries changed
+function handleBuild(options: DevOptions, multiStats: webpack.MultiStats) {
+  const problems: typeof buildProblems = { errors: [], warnings: [] };
 
-      // Only notify clients if auto reload is enabled
-      if (options.reload) {
-        notifyClientsToReload(changedFiles, entries);
-      }
+  // Check every target for errors, skipping the reload if any target failed
+  for (const stats of multiStats.stats) {
+    const target = stats.compilation.name!;
+    const info = stats.toJson();
 
-      // Only log asset sizes in verbose mode
-      if (options.verbose) {
-        info.assets?.forEach((asset) => {
-          Logger.info(`Asset: ${asset.name} (${formatBytes(asset.size)})`);
-        });
-      }
-    },
-  );
+    // Handle errors
+    if (stats.hasErrors()) {
+      info.errors?.forEach((error) => {
+        Logger.error(`Build error (${target})`, error);
+        problems.errors.push(getBuildProblem(target, error));
+      });
+      continue;
+    }
+
+    // Handle warnings
+    if (stats.hasWarnings()) {
+      info.warnings?.forEach((warning) => {
+        Logger.warn(`${target}: ${warning.message || JSON.stringify(warning)}`);
+        problems.warnings.push(getBuildProblem(target, warning));
+      });
+    }
+
+    // Log successful build
+    Logger.success(`Build completed for ${target} in ${info.time}ms`);
+
+    // Only log asset sizes in verbose mode
+    if (options.verbose) {
+      info.assets?.forEach((asset) => {
+        Logger.info(`Asset (${target}): ${asset.name} (${formatBytes(asset.size)})`);
+      });
+    }
+  }
+
+  // Show the errors and warnings in the pages and content scripts, they keep the previous build until it's fixed
+  notifyClientsOfProblems(problems);
+
+  if (problems.errors.length) {
+    return;
+  }
+
+  // Get the entries whose dependency graph changed
+  const { affectedEntries, onlyModulesChanged } = getChangedEntries(multiStats);
+
+  if (affectedEntries.length) {
+    Logger.info(`Affected entries: ${affectedEntries.join(', ')}`);
+  }
+
+  sendToClients({ type: 'build-done', hash: multiStats.hash, entries: affectedEntries });
+
+  // Open the browsers once the first build is on disk
+  if (options.open && !browsersOpened) {
+    browsersOpened = true;
+    openBrowsers(options);
+  }
+
+  // Only notify clients if auto reload is enabled
+  if (options.reload) {
+    // Html pages and other files can't be hot updated
+    notifyClientsToReload(
+      affectedEntries,
+      entries,
+      options.hot && onlyModulesChanged,
+      options.reinjectContentScripts && onlyModulesChanged,
+    );
+  }
+}
+
+export async function dev(options: DevOptions) {
+  Logger.info('Starting development build...');
+
+  // Content scripts are re-injected with chrome.scripting, which Manifest V2 doesn't have
+  if (options.manifestVersion === 2 && options.reinjectContentScripts) {
+    Logger.warn(
+      '--reinject-content-scripts is not supported with --manifest-version 2, the pages are reloaded instead',
+    );
+    options = { ...options, reinjectContentScripts: false };
+  }
+
+  // The logs are forwarded over the WebSocket of the reload banners, which aren't added without auto reload
+  if (!options.reload && options.forwardLogs) {
+    Logger.warn('--forward-logs needs auto reload, no logs are forwarded with --reload false');
+    options = { ...options, forwardLogs: false };
+  }
+
+  let actualPort = options.port;
+
+  // Only start WebSocket server if auto reload is enabled
+  if (options.reload !== false) {
+    actualPort = await setupWebSocketServer(options.port, options.forwardLogs);
+  }
+
+  startWebpackWatcher(options, actualPort, await getDevConfigs(options, actualPort));
+
+  // Type-check in a separate process, diagnostics are logged but don't block the reloads
+  if (options.typecheck) {
+    typeCheckProcess = watchTypeCheck();
+  }
 
   // Force exit after timeout if graceful shutdown fails
   let forceExit = false;
@@ -211,6 +609,32 @@ export async function dev(options: { port: number; reload: boolean; verbose: boo
           resolve();
         }
       }),
+      ...browsers.map(
+        (browser) =>
+          new Promise<void>((resolve) => {
+            // Add timeout in case the browser doesn't quit
+            const browserTimeout = setTimeout(() => {
+              Logger.warn('Browser close timeout, proceeding...');
+              resolve();
+            }, 2000);
+
+            browser.once('exit', () => {
+              clearTimeout(browserTimeout);
+              Logger.info('Browser closed');
+              resolve();
+            });
+
+            browser.kill();
+          }),
+      ),
+      new Promise<void>((resolve) => {
+        if (typeCheckProcess && typeCheckProcess.exitCode === null) {
+          typeCheckProcess.once('exit', () => resolve());
+          typeCheckProcess.kill();
+        } else {
+          resolve();
+        }
+      }),
     ])
       .then(() => {
         clearTimeout(forceExitTimeout);
@@ -226,14 +650,3 @@ export async function dev(options: { port: number; reload: boolean; verbose: boo
   process.on('SIGINT', shutdown);
   process.on('SIGTERM', shutdown);
 }
-
-// Utility function to format bytes
-function formatBytes(bytes: number): string {
-  if (bytes === 0) return '0 Bytes';
-
-  const k = 1024;
-  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-  const i = Math.floor(Math.log(bytes) / Math.log(k));
-
-  return `${parseFloat((bytes / Math.pow(k, i)).toFixed(2))} ${sizes[i]}`;
-}
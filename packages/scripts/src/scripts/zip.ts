@@ -2,31 +2,45 @@ import path from 'path';
 import archiver from 'archiver';
 import fs from 'fs-extra';
 
-import { pathToBrowserExt } from '../utils/pathToBrowserExt';
+import { BrowserExtConfig } from '../config/defineConfig';
+import { ManifestVersion } from '../manifest/toManifestV2';
+import { getBuildName, pathToBrowserExt, pathToBuild, pathToTargetBuild } from '../utils/pathToBrowserExt';
+import { Target } from '../utils/targets';
 
-export function zip() {
-  return new Promise<void>((resolve, reject) => {
-    // Try to get version from manifest.json first
-    let version: string;
-
-    try {
-      const manifestJson = fs.readJSONSync(pathToBrowserExt.manifestJson);
-
-      if (manifestJson.version) {
-        version = manifestJson.version;
-      } else {
-        // Fall back to package.json if manifest doesn't have version
-        const packageJson = fs.readJSONSync(pathToBrowserExt.packageJson);
-        version = packageJson.version;
-      }
-    } catch (err) {
-      // If manifest.json doesn't exist or has issues, use package.json
-      const packageJson = fs.readJSONSync(pathToBrowserExt.packageJson);
-      version = packageJson.version;
+// The build of a target to zip, the same options the build was made with
+interface ZipBuild {
+  target: Target;
+  outDir?: string;
+  variant?: string;
+  manifestVersion?: ManifestVersion;
+}
+
+function getBuildPath(zipBuild: ZipBuild) {
+  return pathToTargetBuild(zipBuild.target, false, zipBuild.outDir, zipBuild.variant, zipBuild.manifestVersion);
+}
+
+function getVersion(zipBuild: ZipBuild) {
+  // Try to get version from the built manifest.json first, it may come from manifest.ts or package.json
+  try {
+    const manifestJson = fs.readJSONSync(path.join(getBuildPath(zipBuild), 'manifest.json'));
+
+    if (manifestJson.version) {
+      return manifestJson.version as string;
     }
+  } catch (err) {
+    // If manifest.json doesn't exist or has issues, use package.json
+  }
 
-    const zipName = `chrome-prod-${version}.zip`;
-    const output = fs.createWriteStream(path.join(pathToBrowserExt.build, zipName));
+  // Fall back to package.json if manifest doesn't have version
+  const packageJson = fs.readJSONSync(pathToBrowserExt.packageJson);
+  return packageJson.version as string;
+}
+
+function zipTarget(zipBuild: ZipBuild, sourceMaps: boolean) {
+  return new Promise<void>((resolve, reject) => {
+    const version = getVersion(zipBuild);
+    const zipName = `${getBuildName(zipBuild.target, false, zipBuild.variant, zipBuild.manifestVersion)}-${version}.zip`;
+    const output = fs.createWriteStream(path.join(pathToBuild(zipBuild.outDir), zipName));
     const archive = archiver('zip', {
       zlib: { level: 9 }, // Maximum compression
     });
@@ -43,9 +57,32 @@ export function zip() {
 
     archive.pipe(output);
 
-    // Add the production build directory to the zip
-    archive.directory(pathToBrowserExt.chromeProd, false);
+    // Add the production build directory of the target to the zip, the source maps are only kept for error symbolication
+    archive.glob('**/*', {
+      cwd: getBuildPath(zipBuild),
+      ignore: sourceMaps ? [] : ['**/*.map'],
+    });
 
     archive.finalize();
   });
 }
+
+export async function zip(options: {
+  targets: Target[];
+  userConfig: BrowserExtConfig;
+  variant?: string;
+  manifestVersion?: ManifestVersion;
+  sourceMaps: boolean;
+}) {
+  for (const target of options.targets) {
+    await zipTarget(
+      {
+        target: target,
+        outDir: options.userConfig.outDir,
+        variant: options.variant,
+        manifestVersion: options.manifestVersion,
+      },
+      options.sourceMaps,
+    );
+  }
+}
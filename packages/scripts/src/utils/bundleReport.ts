@@ -0,0 +1,176 @@
+import path from 'path';
+import fs from 'fs-extra';
+import webpack from 'webpack';
+
+import { BrowserExtConfig } from '../config/defineConfig';
+import { ManifestVersion } from '../manifest/toManifestV2';
+import { getBundleReportHtml } from './bundleReportHtml';
+import { formatBytes } from './formatBytes';
+import Logger from './logger';
+import { getBuildName, pathToBuild } from './pathToBrowserExt';
+import { Target } from './targets';
+
+export type EntryType = 'background' | 'contentScript' | 'extensionPage';
+
+export interface ModuleReport {
+  name: string;
+  size: number;
+}
+
+export interface EntryReport {
+  name: string;
+  type: EntryType;
+  /** Bytes of the files loaded with the entry, after minification */
+  size: number;
+  /** Bytes of the chunks the entry loads on demand with import(), after minification */
+  asyncSize: number;
+  /** Modules bundled in the entry and its chunks, with their size before minification */
+  modules: ModuleReport[];
+}
+
+export interface BundleReport {
+  target: Target;
+  entries: EntryReport[];
+}
+
+// Concatenated modules list the modules they contain, report those instead. The webpack runtime is a single group
+function flattenModules(modules: webpack.StatsModule[]): ModuleReport[] {
+  return modules.flatMap((module) =>
+    module.modules?.length
+      ? flattenModules(module.modules)
+      : [{ name: String(module.name || module.type), size: module.size || 0 }],
+  );
+}
+
+// Create the report of every entry of a target from the stats of its production build
+export function createBundleReport(
+  target: Target,
+  stats: webpack.Stats,
+  entry: Record<EntryType, webpack.EntryObject>,
+): BundleReport {
+  const json = stats.toJson({
+    all: false,
+    assets: true,
+    entrypoints: true,
+    chunks: true,
+    chunkModules: true,
+    chunkRelations: true,
+    nestedModules: true,
+    cachedModules: true, // Modules restored from the cache have no name otherwise
+    chunkModulesSpace: Infinity, // List every module instead of grouping them
+    nestedModulesSpace: Infinity,
+    dependentModules: true, // The modules concatenated into another one
+    ids: true,
+  });
+
+  const chunks = new Map((json.chunks || []).map((chunk) => [chunk.id, chunk]));
+  const assetSizes = new Map((json.assets || []).map((asset) => [asset.name, asset.size]));
+  const getFilesSize = (files: string[]) => files.reduce((size, file) => size + (assetSizes.get(file) || 0), 0);
+
+  const entries = (Object.keys(entry) as EntryType[]).flatMap((type) =>
+    Object.keys(entry[type]).map((name) => {
+      const entrypoint = json.entrypoints?.[name];
+      const initialChunkIds = entrypoint?.chunks || [];
+      const asyncChunkIds = new Set<string | number>();
+
+      // Walk the chunks loaded on demand, including the ones loaded by other async chunks
+      const addChildren = (chunkId: string | number) => {
+        chunks.get(chunkId)?.children?.forEach((childId) => {
+          if (!initialChunkIds.includes(childId) && !asyncChunkIds.has(childId)) {
+            asyncChunkIds.add(childId);
+            addChildren(childId);
+          }
+        });
+      };
+      initialChunkIds.forEach(addChildren);
+
+      const chunkIds = [...initialChunkIds, ...asyncChunkIds];
+
+      return {
+        name,
+        type,
+        size: getFilesSize((entrypoint?.assets || []).map((asset) => asset.name)),
+        asyncSize: getFilesSize([...asyncChunkIds].flatMap((chunkId) => chunks.get(chunkId)?.files || [])),
+        modules: flattenModules(chunkIds.flatMap((chunkId) => chunks.get(chunkId)?.modules || [])).sort(
+          (a, b) => b.size - a.size,
+        ),
+      };
+    }),
+  );
+
+  return { target, entries };
+}
+
+// Log an error for every entry bigger than the budget of its type, returns the number of entries over budget
+export function checkBudgets(report: BundleReport, budgets: BrowserExtConfig['budgets']) {
+  const overBudget = report.entries.filter((entry) => budgets?.[entry.type] && entry.size > budgets[entry.type]!);
+
+  overBudget.forEach((entry) => {
+    Logger.error(
+      `${report.target}: ${entry.name} is ${formatBytes(entry.size)}, over the ${entry.type} budget of ${formatBytes(
+        budgets![entry.type]!,
+      )}`,
+    );
+  });
+
+  return overBudget.length;
+}
+
+function getReportPath(
+  target: Target,
+  outDir: string | undefined,
+  variant: string | undefined,
+  manifestVersion: ManifestVersion | undefined,
+  extension: string,
+) {
+  return path.join(pathToBuild(outDir), `${getBuildName(target, false, variant, manifestVersion)}-report.${extension}`);
+}
+
+function formatDiff(size: number, previousSize: number | undefined) {
+  if (previousSize === undefined) {
+    return 'new';
+  }
+
+  const diff = size - previousSize;
+  return diff === 0 ? 'unchanged' : `${diff > 0 ? '+' : '-'}${formatBytes(Math.abs(diff))}`;
+}
+
+// Log the size of every entry next to its size in the previous report
+function logReportDiff(report: BundleReport, previousReport: BundleReport | null) {
+  const previousEntries = new Map(previousReport?.entries.map((entry) => [entry.name, entry]));
+
+  Logger.info(`Bundle size of ${report.target}${previousReport ? ', compared to the previous report' : ''}:`);
+
+  report.entries.forEach((entry) => {
+    const previousEntry = previousEntries.get(entry.name);
+    const asyncSize = entry.asyncSize ? ` + ${formatBytes(entry.asyncSize)} async` : '';
+    const diff = previousReport
+      ? ` (${formatDiff(entry.size + entry.asyncSize, previousEntry && previousEntry.size + previousEntry.asyncSize)})`
+      : '';
+
+    Logger.info(`  ${entry.name} [${entry.type}] ${formatBytes(entry.size)}${asyncSize}${diff}`);
+  });
+
+  previousReport?.entries
+    .filter((entry) => !report.entries.some((current) => current.name === entry.name))
+    .forEach((entry) => Logger.info(`  ${entry.name} [${entry.type}] removed`));
+}
+
+// Write the JSON and HTML report of a target next to its build, the previous JSON report is compared first
+export function writeBundleReport(
+  report: BundleReport,
+  outDir?: string,
+  variant?: string,
+  manifestVersion?: ManifestVersion,
+) {
+  const jsonPath = getReportPath(report.target, outDir, variant, manifestVersion, 'json');
+  const previousReport: BundleReport | null = fs.readJSONSync(jsonPath, { throws: false });
+
+  logReportDiff(report, previousReport);
+
+  const htmlPath = getReportPath(report.target, outDir, variant, manifestVersion, 'html');
+  fs.outputJSONSync(jsonPath, report, { spaces: 2 });
+  fs.outputFileSync(htmlPath, getBundleReportHtml(report));
+
+  Logger.success(`Bundle report written to ${htmlPath}`);
+}
@@ -0,0 +1,108 @@
+import type { BundleReport, EntryReport } from './bundleReport';
+import { formatBytes } from './formatBytes';
+
+interface TreeNode {
+  name: string;
+  size: number;
+  children: Map<string, TreeNode>;
+}
+
+const colors = ['#4e79a7', '#f28e2b', '#59a14f', '#e15759', '#76b7b2', '#edc948', '#b07aa1', '#9c755f'];
+
+function escapeHtml(value: string) {
+  return value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+// Group the modules of an entry by folder, e.g. ./node_modules/react/index.js goes under node_modules > react
+function getTree(entry: EntryReport) {
+  const root: TreeNode = { name: entry.name, size: 0, children: new Map() };
+
+  entry.modules.forEach((module) => {
+    let node = root;
+    node.size += module.size;
+
+    module.name
+      .replace(/^\.\//, '')
+      .split('/')
+      .forEach((part) => {
+        if (!node.children.has(part)) {
+          node.children.set(part, { name: part, size: 0, children: new Map() });
+        }
+
+        node = node.children.get(part)!;
+        node.size += module.size;
+      });
+  });
+
+  return root;
+}
+
+// Folders with a single child are merged with it, so long paths don't take a level each
+function collapse(node: TreeNode): TreeNode {
+  if (node.children.size === 1) {
+    const [child] = node.children.values();
+
+    if (child?.children.size) {
+      return collapse({ ...child, name: `${node.name}/${child.name}` });
+    }
+  }
+
+  return node;
+}
+
+// Render a slice and dice treemap, every level splits the space of its parent in the other direction
+function renderNode(node: TreeNode, depth: number, path: string, color: string): string {
+  const title = `${path}${node.name} (${formatBytes(node.size)})`;
+  const children = [...node.children.values()].sort((a, b) => b.size - a.size);
+  const style = `flex: ${node.size} 1 0; background: ${color};`;
+
+  if (!children.length) {
+    return `<div class="node leaf" style="${style}" title="${escapeHtml(title)}"><span>${escapeHtml(node.name)}</span></div>`;
+  }
+
+  const childPath = `${path}${node.name}/`;
+  const content = children
+    .map((child, index) =>
+      renderNode(collapse(child), depth + 1, childPath, depth ? color : colors[index % colors.length]!),
+    )
+    .join('');
+
+  return `<div class="node" style="${style}" title="${escapeHtml(title)}"><span>${escapeHtml(node.name)}</span><div class="children" style="flex-direction: ${depth % 2 ? 'column' : 'row'};">${content}</div></div>`;
+}
+
+function renderEntry(entry: EntryReport) {
+  const asyncSize = entry.asyncSize ? ` + ${formatBytes(entry.asyncSize)} async` : '';
+
+  return `
+    <section>
+      <h2>${escapeHtml(entry.name)} <small>${entry.type}, ${formatBytes(entry.size)}${asyncSize}</small></h2>
+      <div class="treemap">${entry.modules.length ? renderNode(getTree(entry), 0, '', '#ddd') : ''}</div>
+    </section>`;
+}
+
+// Self-contained page with a treemap of the modules of every entry, the module sizes are before minification
+export function getBundleReportHtml(report: BundleReport) {
+  return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <title>Bundle report - ${report.target}</title>
+    <style>
+      body { font-family: system-ui, sans-serif; margin: 24px; color: #222; }
+      h2 { font-size: 16px; margin: 24px 0 8px; }
+      small { color: #666; font-weight: normal; }
+      .treemap { display: flex; height: 400px; border: 1px solid #999; }
+      .node { display: flex; flex-direction: column; min-width: 0; min-height: 0; overflow: hidden; box-sizing: border-box; border: 1px solid rgba(255, 255, 255, 0.6); }
+      .node > span { font-size: 11px; padding: 1px 3px; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; color: #fff; }
+      .children { display: flex; flex: 1; min-width: 0; min-height: 0; }
+      .leaf { filter: brightness(1.15); }
+    </style>
+  </head>
+  <body>
+    <h1>Bundle report - ${report.target}</h1>
+    <p>Entry sizes are after minification, module sizes are before minification. Hover a box to see its size.</p>
+    ${report.entries.map(renderEntry).join('\n')}
+  </body>
+</html>
+`;
+}
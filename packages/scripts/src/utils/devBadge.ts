@@ -0,0 +1,58 @@
+import { PNG } from 'pngjs';
+
+// The letters of "DEV" in a 3x5 pixel font, scaled up with the size of the icon
+const letters = [
+  ['110', '101', '101', '101', '110'],
+  ['111', '100', '110', '100', '111'],
+  ['101', '101', '101', '101', '010'],
+];
+
+const badgeColor = [217, 48, 37, 255];
+const textColor = [255, 255, 255, 255];
+
+function setPixel(png: PNG, x: number, y: number, color: number[]) {
+  const index = (png.width * y + x) * 4;
+  png.data.set(color, index);
+}
+
+// Draw a red band with "DEV" at the bottom of a png icon
+export function addDevBadge(content: Buffer) {
+  const png = PNG.sync.read(content);
+
+  // The text is 11 pixels wide (3 letters of 3 pixels and 2 spaces) and 5 pixels high before scaling
+  const scale = Math.max(1, Math.floor(Math.min((png.width * 0.8) / 11, (png.height * 0.3) / 5)));
+  const padding = Math.max(1, Math.round(scale / 2));
+  const badgeHeight = 5 * scale + padding * 2;
+  const badgeTop = png.height - badgeHeight;
+
+  for (let y = Math.max(0, badgeTop); y < png.height; y++) {
+    for (let x = 0; x < png.width; x++) {
+      setPixel(png, x, y, badgeColor);
+    }
+  }
+
+  const textLeft = Math.floor((png.width - 11 * scale) / 2);
+
+  letters.forEach((rows, letterIndex) => {
+    rows.forEach((row, rowIndex) => {
+      [...row].forEach((pixel, columnIndex) => {
+        if (pixel !== '1') {
+          return;
+        }
+
+        const left = textLeft + (letterIndex * 4 + columnIndex) * scale;
+        const top = badgeTop + padding + rowIndex * scale;
+
+        for (let y = top; y < top + scale; y++) {
+          for (let x = left; x < left + scale; x++) {
+            if (x >= 0 && x < png.width && y >= 0 && y < png.height) {
+              setPixel(png, x, y, textColor);
+            }
+          }
+        }
+      });
+    });
+  });
+
+  return PNG.sync.write(png);
+}
@@ -0,0 +1,47 @@
+import { randomBytes } from 'crypto';
+
+// Version of the messages exchanged by the dev server and the reload banners, bump it on breaking changes
+export const protocolVersion = 1;
+
+export interface BuildProblem {
+  target: string;
+  file?: string;
+  line?: number;
+  message: string;
+}
+
+// Messages sent by the dev server to the banners
+export type ServerMessage =
+  | { type: 'build-start' }
+  | { type: 'build-done'; hash: string; entries: string[] }
+  | { type: 'errors'; errors: BuildProblem[]; warnings: BuildProblem[] }
+  | { type: 'reload'; scope: 'background' | 'content' | 'page'; entries: string[] }
+  | { type: 'hot-update'; entries: string[] };
+
+// Messages sent by the banners to the dev server
+export type ClientMessage = {
+  type: 'log';
+  level: 'log' | 'info' | 'warn' | 'error' | 'debug';
+  context: string;
+  message: string;
+};
+
+// Every message is wrapped with the protocol version so both sides can ignore messages they don't understand
+export type Envelope<T> = T & { version: typeof protocolVersion };
+
+// Create the token baked into the banners of a dev session, clients without it are rejected
+export function createSessionToken() {
+  return randomBytes(16).toString('hex');
+}
+
+// Url the banners connect to, the token and version are checked before the connection is accepted
+export function getDevServerUrl(port: number, token: string) {
+  return `ws://localhost:${port}/?token=${token}&version=${protocolVersion}`;
+}
+
+// Check the token and version of a client connecting to the dev server
+export function isAuthorizedClient(requestUrl: string | undefined, token: string) {
+  const searchParams = new URL(requestUrl || '/', 'ws://localhost').searchParams;
+
+  return searchParams.get('token') === token && searchParams.get('version') === String(protocolVersion);
+}
@@ -0,0 +1,126 @@
+import path from 'node:path';
+import fs from 'fs-extra';
+
+import { BrowserExtConfig, EnvVariable } from '../config/defineConfig';
+import { loadEnv } from './loadEnv';
+import { pathToBrowserExt } from './pathToBrowserExt';
+
+// Name of the declaration file written next to tsconfig.json, like next-env.d.ts
+const envTypesFile = 'browser-ext-env.d.ts';
+
+// Check a value against the type of its variable, returns the problem or null if it's valid
+function getTypeProblem(key: string, value: string, variable: EnvVariable) {
+  if (variable.type === 'number' && (value.trim() === '' || isNaN(Number(value)))) {
+    return `${key} must be a number, got "${value}"`;
+  }
+
+  if (variable.type === 'boolean' && value !== 'true' && value !== 'false') {
+    return `${key} must be "true" or "false", got "${value}"`;
+  }
+
+  return null;
+}
+
+// Validate the loaded variables against the env schema of the config, throws an error listing every problem
+function validateEnv(
+  envVars: Record<string, string>,
+  schema: Record<string, EnvVariable> | undefined,
+  envPrefix: string,
+  mode: 'development' | 'production',
+  variant: string | undefined,
+) {
+  const env = { ...envVars };
+  const problems: string[] = [];
+
+  Object.entries(schema || {}).forEach(([key, variable]) => {
+    if (!key.startsWith(envPrefix)) {
+      problems.push(`${key} doesn't start with ${envPrefix} and would not be exposed through process.env`);
+      return;
+    }
+
+    const value = envVars[key] || variable.default;
+
+    if (value === undefined || value === '') {
+      if (variable.required !== false) {
+        problems.push(`${key} is required${variable.description ? ` (${variable.description})` : ''}`);
+      }
+
+      return;
+    }
+
+    const typeProblem = getTypeProblem(key, value, variable);
+
+    if (typeProblem) {
+      problems.push(typeProblem);
+    }
+
+    env[key] = value;
+  });
+
+  if (problems.length) {
+    throw new Error(
+      `Invalid environment variables:\n  ${problems.join('\n  ')}\n` +
+        `Set them in .env.local, ${variant ? `.env.${variant}, ` : ''}.env.${mode} or .env, or in the environment`,
+    );
+  }
+
+  return env;
+}
+
+function getValueType(variable: EnvVariable) {
+  switch (variable.type) {
+    case 'number':
+      return '`${number}`';
+    case 'boolean':
+      return "'true' | 'false'";
+    default:
+      return 'string';
+  }
+}
+
+function getEnvTypes(schema: Record<string, EnvVariable>) {
+  const properties = Object.entries(schema).map(([key, variable]) => {
+    const optional = variable.required === false && variable.default === undefined;
+    const description = variable.description ? `    /** ${variable.description} */\n` : '';
+
+    return `${description}    ${key}${optional ? '?' : ''}: ${getValueType(variable)};`;
+  });
+
+  return [
+    '// Generated by browser-ext from the env schema of browser-ext.config.ts, do not edit',
+    '',
+    'declare namespace NodeJS {',
+    '  interface ProcessEnv {',
+    "    NODE_ENV: 'development' | 'production';",
+    ...properties,
+    '  }',
+    '}',
+    '',
+  ].join('\n');
+}
+
+// Write the types of process.env for the env schema, the file is only touched when the schema changes
+function writeEnvTypes(schema: Record<string, EnvVariable> | undefined) {
+  if (!schema) {
+    return;
+  }
+
+  const envTypesPath = path.join(pathToBrowserExt.root, envTypesFile);
+  const envTypes = getEnvTypes(schema);
+
+  if (fs.existsSync(envTypesPath) && fs.readFileSync(envTypesPath, 'utf8') === envTypes) {
+    return;
+  }
+
+  fs.writeFileSync(envTypesPath, envTypes);
+}
+
+// Load the variables exposed to the extension, typed and validated when the config has an env schema.
+// The types are written first, so they are up to date even when some variables are missing.
+export function loadExtensionEnv(mode: 'development' | 'production', userConfig: BrowserExtConfig, variant?: string) {
+  const envPrefix = userConfig.envPrefix ?? 'BROWSER_EXT_';
+
+  writeEnvTypes(userConfig.env);
+
+  return validateEnv(loadEnv(mode, envPrefix, variant), userConfig.env, envPrefix, mode, variant);
+}
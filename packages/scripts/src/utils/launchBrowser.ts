@@ -0,0 +1,134 @@
+import { ChildProcess, spawn } from 'child_process';
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+
+import { BrowserExtConfig } from '../config/defineConfig';
+import Logger from './logger';
+import { pathToBrowserExt } from './pathToBrowserExt';
+import { Target } from './targets';
+
+// Binaries looked up on the PATH (linux) or at their install location (macOS and Windows) when none is configured
+const defaultBinaries: Record<Target, Partial<Record<NodeJS.Platform, string[]>>> = {
+  chrome: {
+    linux: ['google-chrome', 'google-chrome-stable', 'chromium', 'chromium-browser'],
+    darwin: [
+      '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome',
+      '/Applications/Chromium.app/Contents/MacOS/Chromium',
+    ],
+    win32: [
+      path.join(process.env.PROGRAMFILES || 'C:\\Program Files', 'Google\\Chrome\\Application\\chrome.exe'),
+      path.join(process.env.LOCALAPPDATA || '', 'Google\\Chrome\\Application\\chrome.exe'),
+    ],
+  },
+  // Release builds of Firefox only run signed extensions, so prefer the Developer Edition and Nightly
+  firefox: {
+    linux: ['firefox-developer-edition', 'firefox-nightly', 'firefox'],
+    darwin: [
+      '/Applications/Firefox Developer Edition.app/Contents/MacOS/firefox',
+      '/Applications/Firefox Nightly.app/Contents/MacOS/firefox',
+      '/Applications/Firefox.app/Contents/MacOS/firefox',
+    ],
+    win32: [
+      path.join(process.env.PROGRAMFILES || 'C:\\Program Files', 'Firefox Developer Edition\\firefox.exe'),
+      path.join(process.env.PROGRAMFILES || 'C:\\Program Files', 'Mozilla Firefox\\firefox.exe'),
+    ],
+  },
+};
+
+// Preferences of the Firefox profile, allowing the unsigned dev build to be installed without prompts
+const firefoxPreferences = {
+  'xpinstall.signatures.required': false,
+  'extensions.autoDisableScopes': 0,
+  'extensions.enabledScopes': 15,
+  'browser.shell.checkDefaultBrowser': false,
+  'datareporting.policy.dataSubmissionEnabled': false,
+};
+
+function findBinary(target: Target) {
+  const candidates = defaultBinaries[target][process.platform] || [];
+  const directories = (process.env.PATH || '').split(path.delimiter);
+
+  for (const candidate of candidates) {
+    if (path.isAbsolute(candidate)) {
+      if (fs.existsSync(candidate)) {
+        return candidate;
+      }
+    } else {
+      const directory = directories.find((dir) => fs.existsSync(path.join(dir, candidate)));
+
+      if (directory) {
+        return path.join(directory, candidate);
+      }
+    }
+  }
+
+  return null;
+}
+
+// Get the binary of a browser, the configured one wins over the ones found on the system
+export function getBrowserBinary(target: Target, userConfig: BrowserExtConfig) {
+  const binary = userConfig.open?.binaries?.[target];
+
+  return binary ? path.resolve(pathToBrowserExt.root, binary) : findBinary(target);
+}
+
+// The profile lives in the temp folder and is reused by the next dev session, so logins and settings are kept
+export function getProfilePath(target: Target) {
+  const packageJson = fs.readJSONSync(pathToBrowserExt.packageJson, { throws: false }) || {};
+  const name = String(packageJson.name || path.basename(pathToBrowserExt.root))
+    .replace(/[^a-zA-Z0-9._-]+/g, '-')
+    .replace(/^-+/, '');
+
+  return path.join(os.tmpdir(), 'browser-ext', `${name}-${target}-profile`);
+}
+
+function getChromeArgs(buildPath: string, profilePath: string) {
+  return [
+    `--user-data-dir=${profilePath}`,
+    `--load-extension=${buildPath}`,
+    // Chrome 137 and later ignore --load-extension unless this feature is disabled
+    '--disable-features=DisableLoadExtensionCommandLineSwitch',
+    '--no-first-run',
+    '--no-default-browser-check',
+  ];
+}
+
+function getFirefoxArgs(buildPath: string, profilePath: string) {
+  const manifestJson = fs.readJSONSync(path.join(buildPath, 'manifest.json'));
+  const extensionId = manifestJson.browser_specific_settings?.gecko?.id;
+
+  // A file named after the extension id containing the path of the build installs it from that folder
+  fs.outputFileSync(path.join(profilePath, 'extensions', extensionId), buildPath);
+
+  const preferences = Object.entries(firefoxPreferences).map(
+    ([key, value]) => `user_pref(${JSON.stringify(key)}, ${JSON.stringify(value)});`,
+  );
+  fs.outputFileSync(path.join(profilePath, 'user.js'), preferences.join('\n') + '\n');
+
+  return ['-profile', profilePath, '-no-remote'];
+}
+
+// Launch a browser with the dev build of a target loaded in its own profile, returns null if it couldn't be found
+export function launchBrowser(target: Target, buildPath: string, userConfig: BrowserExtConfig, startUrls: string[]) {
+  const binary = getBrowserBinary(target, userConfig);
+
+  if (!binary) {
+    Logger.warn(`Could not find a ${target} binary, set open.binaries.${target} in browser-ext.config.ts`);
+    return null;
+  }
+
+  const profilePath = getProfilePath(target);
+  fs.ensureDirSync(profilePath);
+
+  const args = target === 'chrome' ? getChromeArgs(buildPath, profilePath) : getFirefoxArgs(buildPath, profilePath);
+
+  const browser: ChildProcess = spawn(binary, [...args, ...startUrls], { stdio: 'ignore' });
+
+  browser.on('error', (error) => {
+    Logger.error(`Failed to launch ${binary}`, error);
+  });
+
+  Logger.info(`Opened ${target} with profile ${profilePath}`);
+  return browser;
+}
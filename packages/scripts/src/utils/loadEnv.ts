@@ -0,0 +1,27 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import dotenv from 'dotenv';
+
+// Load the .env files of a mode (and variant) and return the variables that start with the prefix
+export function loadEnv(mode: 'development' | 'production', envPrefix: string, variant?: string) {
+  // Load .env files, the first file setting a variable wins
+  const envFiles = ['.env.local', ...(variant ? [`.env.${variant}`] : []), `.env.${mode}`, '.env'];
+
+  // Load environment variables from files
+  envFiles.forEach((envFile) => {
+    const envPath = path.resolve(process.cwd(), envFile);
+    if (fs.existsSync(envPath)) {
+      dotenv.config({ path: envPath });
+    }
+  });
+
+  // Filter environment variables - only pass those with the prefix
+  const envVars: Record<string, string> = {};
+  Object.keys(process.env).forEach((key) => {
+    if (key.startsWith(envPrefix)) {
+      envVars[key] = process.env[key] || '';
+    }
+  });
+
+  return envVars;
+}
@@ -1,6 +1,9 @@
 import path from 'path';
 import fs from 'fs-extra';
 
+import { ManifestVersion } from '../manifest/toManifestV2';
+import { Target } from './targets';
+
 // Resolve the path to the browser extension (the working directory)
 function resolveToBrowserExt(relativePath: string) {
   return path.resolve(fs.realpathSync(process.cwd()), relativePath);
@@ -11,9 +14,43 @@ export const pathToBrowserExt = {
   manifestJson: resolveToBrowserExt('manifest.json'),
   packageJson: resolveToBrowserExt('package.json'),
   tsconfigJson: resolveToBrowserExt('tsconfig.json'),
+  public: resolveToBrowserExt('public'),
   build: resolveToBrowserExt('build'),
   chromeDev: resolveToBrowserExt('build/chrome-dev/'),
   chromeProd: resolveToBrowserExt('build/chrome-prod/'),
   firefoxDev: resolveToBrowserExt('build/firefox-dev/'),
   firefoxProd: resolveToBrowserExt('build/firefox-prod/'),
 };
+
+// Resolve the path to the folder the builds and zips are written to
+export function pathToBuild(outDir?: string) {
+  return outDir ? resolveToBrowserExt(outDir) : pathToBrowserExt.build;
+}
+
+// Name of the build of a target, also used for its zip and report, e.g. chrome-prod, chrome-beta or chrome-beta-dev.
+// Manifest V2 builds get their own name, e.g. chrome-mv2-prod or chrome-beta-mv2.
+export function getBuildName(
+  target: Target,
+  isDevelopment: boolean,
+  variant?: string,
+  manifestVersion: ManifestVersion = 3,
+) {
+  const name = [target, variant, manifestVersion === 2 ? 'mv2' : undefined].filter(Boolean).join('-');
+
+  if (variant) {
+    return `${name}${isDevelopment ? '-dev' : ''}`;
+  }
+
+  return `${name}-${isDevelopment ? 'dev' : 'prod'}`;
+}
+
+// Resolve the path to the unpacked build folder of a target
+export function pathToTargetBuild(
+  target: Target,
+  isDevelopment: boolean,
+  outDir?: string,
+  variant?: string,
+  manifestVersion?: ManifestVersion,
+) {
+  return path.join(pathToBuild(outDir), getBuildName(target, isDevelopment, variant, manifestVersion));
+}
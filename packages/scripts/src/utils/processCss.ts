@@ -0,0 +1,35 @@
+import { createRequire } from 'module';
+import path from 'path';
+import fs from 'fs-extra';
+import postcss, { AcceptedPlugin } from 'postcss';
+
+import { pathToBrowserExt } from './pathToBrowserExt';
+
+// Load the plugins of the postcss.config.js of the extension, the same ones postcss-loader uses for imported css
+function getPostcssPlugins() {
+  const require = createRequire(import.meta.url);
+  const postcssConfigPath = path.join(pathToBrowserExt.root, 'postcss.config.js');
+  let plugins: AcceptedPlugin[] = [];
+
+  if (fs.existsSync(postcssConfigPath)) {
+    const postcssConfig = require(postcssConfigPath);
+    const pluginConfig = postcssConfig.plugins;
+
+    // Handle object-style plugin configuration
+    if (pluginConfig && typeof pluginConfig === 'object') {
+      plugins = Object.entries(pluginConfig).map(([pluginName, pluginOptions]) => {
+        const plugin = require(pluginName);
+        return plugin(pluginOptions);
+      });
+    }
+  }
+
+  return plugins;
+}
+
+// Run a css file copied to the extension through PostCSS, extra plugins run after the ones of the extension
+export async function processCss(content: string, from: string, to: string, extraPlugins: AcceptedPlugin[] = []) {
+  const result = await postcss([...getPostcssPlugins(), ...extraPlugins]).process(content, { from, to });
+
+  return result.css;
+}
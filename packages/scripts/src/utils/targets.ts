@@ -0,0 +1,17 @@
+// The browsers an extension can be built for
+export const targets = ['chrome', 'firefox'] as const;
+
+export type Target = (typeof targets)[number];
+
+// Convert the --target option (chrome, firefox or all) into a list of targets
+export function getTargets(target: string): Target[] {
+  if (target === 'all') {
+    return [...targets];
+  }
+
+  if (!targets.includes(target as Target)) {
+    throw new Error(`Invalid target "${target}", expected one of: ${[...targets, 'all'].join(', ')}`);
+  }
+
+  return [target as Target];
+}
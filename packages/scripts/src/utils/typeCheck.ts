@@ -0,0 +1,136 @@
+import { ChildProcess, spawn } from 'child_process';
+import { createRequire } from 'module';
+import path from 'path';
+import fs from 'fs-extra';
+
+import Logger from './logger';
+import { pathToBrowserExt } from './pathToBrowserExt';
+
+// A diagnostic printed by tsc with --pretty false, e.g. "src/index.ts(3,7): error TS2322: Type 'string' is not...".
+// Diagnostics of the project have no location, e.g. "error TS18003: No inputs were found in config file..."
+const diagnosticRegex = /^(?:(.+)\((\d+),(\d+)\): )?(error|warning) (TS\d+): /;
+
+// Resolve tsc from the extension, so the version it depends on is used
+function getTscPath() {
+  try {
+    return createRequire(path.join(pathToBrowserExt.root, 'package.json')).resolve('typescript/bin/tsc');
+  } catch (err) {
+    return null;
+  }
+}
+
+// Run tsc without emitting, returns null if the extension has no tsconfig.json or doesn't depend on typescript
+function spawnTsc(args: string[]) {
+  if (!fs.existsSync(pathToBrowserExt.tsconfigJson)) {
+    Logger.info('No tsconfig.json found, skipping the type-check');
+    return null;
+  }
+
+  const tscPath = getTscPath();
+
+  if (!tscPath) {
+    Logger.warn('TypeScript is not installed, skipping the type-check');
+    return null;
+  }
+
+  return spawn(
+    process.execPath,
+    [tscPath, '--noEmit', '--pretty', 'false', '-p', pathToBrowserExt.tsconfigJson, ...args],
+    { cwd: pathToBrowserExt.root },
+  );
+}
+
+// Collect the diagnostics printed by tsc, the lines following a diagnostic belong to its message
+function parseDiagnostics(lines: string[]) {
+  const diagnostics: string[] = [];
+
+  lines.forEach((line) => {
+    if (diagnosticRegex.test(line)) {
+      diagnostics.push(line);
+    } else if (/^\s+/.test(line) && diagnostics.length) {
+      diagnostics[diagnostics.length - 1] += '\n' + line;
+    }
+  });
+
+  return diagnostics;
+}
+
+function countErrors(diagnostics: string[]) {
+  return diagnostics.filter((diagnostic) => diagnostic.match(diagnosticRegex)?.[4] === 'error').length;
+}
+
+function logDiagnostics(diagnostics: string[]) {
+  const errorCount = countErrors(diagnostics);
+
+  if (errorCount) {
+    Logger.error(`Type-check found ${errorCount} error(s)`, { message: diagnostics.join('\n') });
+  } else {
+    Logger.success('Type-check passed');
+  }
+
+  return errorCount;
+}
+
+// Type-check the extension once, resolves with the number of errors
+export function typeCheck() {
+  return new Promise<number>((resolve, reject) => {
+    const tsc = spawnTsc([]);
+
+    if (!tsc) {
+      resolve(0);
+      return;
+    }
+
+    let output = '';
+    tsc.stdout?.on('data', (data) => (output += data));
+    tsc.stderr?.on('data', (data) => (output += data));
+
+    tsc.on('error', reject);
+    tsc.on('close', (code) => {
+      const diagnostics = parseDiagnostics(output.split(/\r?\n/));
+
+      // tsc can fail without printing a diagnostic, e.g. when it crashes, which still fails the type-check
+      if (code && !countErrors(diagnostics)) {
+        Logger.error(`Type-check failed with exit code ${code}`, { message: output.trim() });
+        resolve(1);
+        return;
+      }
+
+      resolve(logDiagnostics(diagnostics));
+    });
+  });
+}
+
+// Type-check the extension on every change without blocking webpack, returns the tsc process to stop it on shutdown
+export function watchTypeCheck(): ChildProcess | null {
+  const tsc = spawnTsc(['--watch', '--preserveWatchOutput']);
+
+  if (!tsc) {
+    return null;
+  }
+
+  let lines: string[] = [];
+  let buffer = '';
+
+  tsc.stdout?.on('data', (data) => {
+    buffer += data;
+    const newLines = buffer.split(/\r?\n/);
+    buffer = newLines.pop() || '';
+
+    newLines.forEach((line) => {
+      // tsc prints "Found N errors. Watching for file changes." at the end of every compilation
+      if (/Found \d+ errors?\./.test(line)) {
+        logDiagnostics(parseDiagnostics(lines));
+        lines = [];
+      } else {
+        lines.push(line);
+      }
+    });
+  });
+
+  tsc.on('error', (error) => {
+    Logger.error('Failed to start the type-check', error);
+  });
+
+  return tsc;
+}
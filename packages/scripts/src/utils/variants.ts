@@ -0,0 +1,38 @@
+import path from 'path';
+import fs from 'fs-extra';
+
+import { BrowserExtConfig } from '../config/defineConfig';
+import Logger from './logger';
+import { pathToBrowserExt } from './pathToBrowserExt';
+
+// Names already used by the .env files and the build folders of the modes
+const reservedVariants = ['dev', 'prod', 'development', 'production', 'local'];
+
+// Get the manifest.<variant>.json merged over the manifest of the extension
+export function getVariantManifestPath(variant: string) {
+  return path.join(pathToBrowserExt.root, `manifest.${variant}.json`);
+}
+
+// Check the --variant option, warning when nothing is defined for it as it's most likely a typo
+export function getVariant(variant: string | undefined, userConfig: BrowserExtConfig) {
+  if (variant === undefined) {
+    return undefined;
+  }
+
+  if (!/^[a-z0-9][a-z0-9_-]*$/i.test(variant) || reservedVariants.includes(variant)) {
+    throw new Error(
+      `Invalid variant "${variant}", use letters, numbers, dashes and underscores, except for: ${reservedVariants.join(', ')}`,
+    );
+  }
+
+  const isDefined =
+    userConfig.variants?.[variant] ||
+    fs.existsSync(getVariantManifestPath(variant)) ||
+    fs.existsSync(path.join(pathToBrowserExt.root, `.env.${variant}`));
+
+  if (!isDefined) {
+    Logger.warn(`Variant "${variant}" has no manifest.${variant}.json, .env.${variant} or variants.${variant} config`);
+  }
+
+  return variant;
+}
@@ -0,0 +1,62 @@
+import fs from 'fs-extra';
+import webpack from 'webpack';
+
+import { getHtmlPageEntries } from './getEntries';
+import { getHtmlPageFiles } from './plugins/CopyPngHtmlPlugin';
+
+function isFile(file: string) {
+  return fs.statSync(file, { throwIfNoEntry: false })?.isFile() ?? false;
+}
+
+// Get the entries whose dependency graph contains a file that changed since the last compilation
+export function getAffectedEntries(compilation: webpack.Compilation) {
+  const entryNames = [...compilation.entrypoints.keys()];
+  const modifiedFiles = compilation.compiler.modifiedFiles;
+
+  // The first compilation has nothing to compare to, so every entry is affected
+  if (!modifiedFiles) {
+    return { entries: entryNames, pageEntries: [], otherFiles: [] };
+  }
+
+  const moduleFiles = new Set<string>();
+
+  const entries = entryNames.filter((entryName) => {
+    const entrypoint = compilation.entrypoints.get(entryName);
+    let isAffected = false;
+
+    // The chunks loaded with import() are part of the entry as well
+    const chunks = new Set(entrypoint?.chunks.flatMap((chunk) => [chunk, ...chunk.getAllAsyncChunks()]));
+
+    chunks.forEach((chunk) => {
+      for (const module of compilation.chunkGraph.getChunkModulesIterable(chunk)) {
+        const file = module.nameForCondition();
+
+        if (file) {
+          moduleFiles.add(file);
+          isAffected = isAffected || modifiedFiles.has(file);
+        }
+      }
+    });
+
+    return isAffected;
+  });
+
+  // Html pages and the images, fonts and stylesheets they reference aren't modules, they only affect their own page
+  const pageFiles = new Set<string>();
+  const pageEntries = new Set<string>();
+
+  getHtmlPageFiles(compilation).forEach((files, htmlFile) => {
+    if (files.some((file) => modifiedFiles.has(file))) {
+      files.forEach((file) => pageFiles.add(file));
+      Object.keys(getHtmlPageEntries(htmlFile)).forEach((entryName) => pageEntries.add(entryName));
+    }
+  });
+
+  // Files that aren't part of any entry or page, such as the manifest or copied assets. Webpack reports the folder of
+  // a missing copied folder (e.g. _locales) as modified, folders aren't files that changed.
+  const otherFiles = [...modifiedFiles].filter(
+    (file) => !moduleFiles.has(file) && !pageFiles.has(file) && isFile(file),
+  );
+
+  return { entries, pageEntries: [...pageEntries], otherFiles };
+}
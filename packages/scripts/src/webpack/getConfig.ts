@@ -1,21 +1,42 @@
-import fs from 'node:fs';
 import path from 'node:path';
-import dotenv from 'dotenv';
+import { fileURLToPath } from 'node:url';
+import JSON5 from 'json5';
 import webpack from 'webpack';
 
-import { pathToBrowserExt } from '../utils/pathToBrowserExt';
+import { BrowserExtConfig } from '../config/defineConfig';
+import { Manifest } from '../manifest/manifestTypes';
+import { ManifestVersion } from '../manifest/toManifestV2';
+import { loadExtensionEnv } from '../utils/envSchema';
+import { pathToBrowserExt, pathToTargetBuild } from '../utils/pathToBrowserExt';
+import { Target } from '../utils/targets';
+import { getWebAccessibleEntries } from './getEntries';
 import { CopyCssManifestPlugin } from './plugins/CopyCssManifestPlugin';
 import { CopyHtmlPlugin } from './plugins/CopyHtmlPlugin';
 import { CopyLocalesPlugin } from './plugins/CopyLocalesPlugin';
 import { CopyManifestPlugin } from './plugins/CopyManifestPlugin';
 import { CopyPngHtmlPlugin } from './plugins/CopyPngHtmlPlugin';
 import { CopyPngManifestPlugin } from './plugins/CopyPngManifestPlugin';
+import { CopyPublicPlugin } from './plugins/CopyPublicPlugin';
 import { CopyWebAccessibleResourcesPlugin } from './plugins/CopyWebAccessibleResourcesPlugin';
+import { GenerateIconsPlugin, getIconsManifest, omitIcons } from './plugins/GenerateIconsPlugin';
+import { HotExtensionPagePlugin } from './plugins/HotExtensionPagePlugin';
 import { ReloadBackgroundPlugin } from './plugins/ReloadBackgroundPlugin';
 import { ReloadContentPlugin } from './plugins/ReloadContentPlugin';
 import { ReloadPagePlugin } from './plugins/ReloadPagePlugin';
+import { ValidateManifestPlugin } from './plugins/ValidateManifestPlugin';
+
+// Layer of the content script modules when their CSS is collected for a shadow root
+const contentScriptLayer = 'contentScript';
+
+// Layer of the extension page modules when they are hot updated
+const extensionPageLayer = 'extensionPage';
 
 interface ConfigOptions {
+  target: Target;
+  variant?: string;
+  manifestVersion?: ManifestVersion;
+  userConfig: BrowserExtConfig;
+  manifestJson: Manifest;
   entry: {
     background: webpack.EntryObject;
     contentScript: webpack.EntryObject;
@@ -26,32 +47,20 @@ interface ConfigOptions {
 interface ConfigOptionsDevelopment extends ConfigOptions {
   mode: 'development';
   port: number;
+  token: string;
   reload: boolean;
+  hot: boolean;
+  forwardLogs: boolean;
+  reinjectContentScripts: boolean;
 }
 
 interface ConfigOptionsProduction extends ConfigOptions {
   mode: 'production';
 }
 
-export function getConfig(options: ConfigOptionsDevelopment | ConfigOptionsProduction): webpack.Configuration {
-  // Load .env files
-  const envFiles = ['.env.local', `.env.${options.mode}`, '.env'];
-
-  // Load environment variables from files
-  envFiles.forEach((envFile) => {
-    const envPath = path.resolve(process.cwd(), envFile);
-    if (fs.existsSync(envPath)) {
-      dotenv.config({ path: envPath });
-    }
-  });
-
-  // Filter environment variables - only pass those prefixed with BROWSER_EXT_
-  const envVars: Record<string, string> = {};
-  Object.keys(process.env).forEach((key) => {
-    if (key.startsWith('BROWSER_EXT_')) {
-      envVars[key] = process.env[key] || '';
-    }
-  });
+function getModeConfig(options: ConfigOptionsDevelopment | ConfigOptionsProduction): webpack.Configuration {
+  // Load the environment variables prefixed with BROWSER_EXT_ (or the configured prefix)
+  const envVars = loadExtensionEnv(options.mode, options.userConfig, options.variant);
 
   // Also include NODE_ENV
   envVars.NODE_ENV = options.mode;
@@ -59,13 +68,46 @@ export function getConfig(options: ConfigOptionsDevelopment | ConfigOptionsProdu
   const isDevelopment = options.mode === 'development';
   const isProduction = options.mode === 'production';
 
+  // Hot updates go over the same WebSocket as the reloads, so they need auto reload as well
+  const isHot = options.mode === 'development' && options.reload && options.hot;
+
+  // Content scripts are re-injected by the background, which needs the scripting api and access to their pages
+  const isReinject = options.mode === 'development' && options.reload && options.reinjectContentScripts;
+  const manifestJson = getIconsManifest(
+    isReinject ? getReinjectManifest(options.manifestJson) : options.manifestJson,
+    options.userConfig.icon,
+  );
+
+  // The content scripts are built in their own layer, so the CSS they import can be handled differently
+  const isShadowRootCss = options.userConfig.contentScriptCss === 'shadowRoot';
+
+  // Class names of CSS modules are readable in development and short in production, e.g. import styles from './a.module.css'
+  const cssLoader = {
+    loader: 'css-loader',
+    options: {
+      modules: {
+        auto: true,
+        namedExport: false,
+        localIdentName: isDevelopment ? '[path][name]__[local]' : '[hash:base64:8]',
+      },
+    },
+  };
+
+  // The icons are generated from a single image instead of being copied
+  const pngManifestJson = options.userConfig.icon ? omitIcons(options.manifestJson) : options.manifestJson;
+
   const config: webpack.Configuration = {
+    // Name the config after the target so each target gets its own cache
+    name: options.target,
+
     mode: options.mode,
 
     entry: {
-      ...options.entry.background,
-      ...options.entry.contentScript,
-      ...options.entry.extensionPage,
+      ...getInlineEntries(options.entry.background),
+      ...getInlineEntries(options.entry.contentScript, isShadowRootCss ? contentScriptLayer : undefined, [
+        getClientPath('publicPath'),
+      ]),
+      ...(isHot ? getHotEntries(options.entry.extensionPage) : options.entry.extensionPage),
     },
 
     module: {
@@ -73,59 +115,122 @@ export function getConfig(options: ConfigOptionsDevelopment | ConfigOptionsProdu
         {
           // Handle TypeScript and React files
           test: /\.(ts|tsx)$/,
-          use: {
-            loader: 'babel-loader',
-            options: {
-              presets: [
-                '@babel/preset-env',
-                '@babel/preset-typescript',
-                ['@babel/preset-react', { runtime: 'automatic' }],
-              ],
-              // Enable caching for faster rebuilds
-              cacheDirectory: true,
+          oneOf: [
+            ...(isHot
+              ? [
+                  {
+                    // Only the React components of the extension pages are swapped by React Fast Refresh
+                    issuerLayer: extensionPageLayer,
+                    use: getBabelLoader(true),
+                  },
+                ]
+              : []),
+            {
+              use: getBabelLoader(false),
             },
-          },
+          ],
           exclude: /node_modules/,
         },
         {
-          // Handle CSS files
-          test: /\.css$/,
-          use: [
-            'style-loader', // Injects CSS into the DOM
-            'css-loader', // Handles CSS imports
-            'postcss-loader', // Process PostCSS (including Tailwind)
+          // Handle CSS and Sass files, .module.css files are CSS modules
+          test: /\.(css|s[ac]ss)$/,
+          oneOf: [
+            {
+              // Import the CSS as a string, e.g. import css from './index.css?inline'
+              resourceQuery: /^\?inline$/,
+              use: [{ loader: 'css-loader', options: { exportType: 'string' } }, 'postcss-loader'],
+            },
+            {
+              // Import the CSS as a constructable stylesheet for adoptedStyleSheets
+              resourceQuery: /^\?stylesheet$/,
+              use: [{ loader: 'css-loader', options: { exportType: 'css-style-sheet' } }, 'postcss-loader'],
+            },
+            {
+              // Keep the CSS of content scripts out of the page, it's added to their shadow roots instead
+              issuerLayer: contentScriptLayer,
+              use: [
+                { loader: 'style-loader', options: { insert: getClientPath('insertStyle') } },
+                cssLoader,
+                'postcss-loader',
+              ],
+            },
+            {
+              use: [
+                'style-loader', // Injects CSS into the DOM
+                cssLoader, // Handles CSS imports and CSS modules
+                'postcss-loader', // Process PostCSS (including Tailwind)
+              ],
+            },
+          ],
+        },
+        {
+          // Compile Sass before the CSS loaders above, it needs the sass package to be installed in the extension
+          test: /\.s[ac]ss$/,
+          use: ['sass-loader'],
+        },
+        {
+          // Emit images and fonts as files, imports and url() in CSS get their url in the extension
+          test: /\.(png|jpe?g|gif|webp|avif|ico|bmp|woff2?|ttf|otf|eot)$/i,
+          type: 'asset/resource',
+        },
+        {
+          test: /\.svg$/i,
+          oneOf: [
+            {
+              // Import the url of the SVG file, e.g. import logoUrl from './logo.svg?url'
+              resourceQuery: /^\?url$/,
+              type: 'asset/resource',
+            },
+            {
+              // SVG files referenced with url() in CSS are files as well
+              issuer: /\.(css|s[ac]ss)$/,
+              type: 'asset/resource',
+            },
+            {
+              // Handle SVG files as React components
+              use: ['@svgr/webpack'],
+            },
           ],
         },
         {
-          // Handle SVG files as React components
-          test: /\.svg$/,
-          use: ['@svgr/webpack'],
+          // Handle JSON5 files like JSON files, they can have comments and trailing commas
+          test: /\.json5$/,
+          type: 'json',
+          parser: { parse: JSON5.parse },
         },
+        ...(options.userConfig.rules || []),
       ],
     },
 
     resolve: {
       extensions: ['.js', '.jsx', '.ts', '.tsx', '.css'],
+      alias: getAliases(options.userConfig),
     },
 
     output: {
       clean: true, // Clean the output directory before emit
       filename: '[name].js',
       chunkFilename: '[name].chunk.js',
+      // Images and fonts are named after their content, like the files CopyPngHtmlPlugin copies
+      assetModuleFilename: 'assets/[name].[contenthash:8][ext]',
+      // Files are served from the root of the extension, content scripts can't detect it automatically
+      publicPath: '/',
     },
 
     optimization: {
       splitChunks: {
-        chunks: 'all',
-        name: 'vendor',
-        minSize: 999999999, // Don't split chunks
-        // minSize: isDevelopment ? 999999999 : 20000, // Don't split chunks in development for faster builds
+        // Only split the chunks loaded with import(), the manifest and html pages only reference the entry files
+        chunks: 'async',
       },
     },
 
     performance: {
       hints: isProduction ? 'warning' : false,
     },
+
+    experiments: {
+      layers: isShadowRootCss || isHot,
+    },
   };
 
   const basePlugins = [
@@ -135,43 +240,94 @@ export function getConfig(options: ConfigOptionsDevelopment | ConfigOptionsProdu
           acc[`process.env.${key}`] = JSON.stringify(envVars[key]);
           return acc;
         },
-        {} as Record<string, string>,
+        // Optional variables that aren't set are undefined instead of being left as process.env.* in the code
+        Object.keys(options.userConfig.env || {}).reduce(
+          (acc, key) => {
+            acc[`process.env.${key}`] = 'undefined';
+            return acc;
+          },
+          {} as Record<string, string>,
+        ),
       ),
     ),
-    CopyManifestPlugin(isDevelopment),
-    CopyCssManifestPlugin(isDevelopment),
-    CopyHtmlPlugin(isDevelopment),
-    CopyLocalesPlugin(isDevelopment),
-    CopyPngManifestPlugin(isDevelopment),
-    CopyPngHtmlPlugin(isDevelopment),
-    CopyWebAccessibleResourcesPlugin(isDevelopment),
+    CopyManifestPlugin(
+      isDevelopment,
+      options.target,
+      manifestJson,
+      options.variant,
+      options.userConfig.devManifest,
+      Object.keys(options.entry.contentScript),
+      options.manifestVersion,
+    ),
+    ValidateManifestPlugin(isDevelopment, options.target),
+    CopyCssManifestPlugin(isDevelopment, options.target, options.manifestJson),
+    CopyHtmlPlugin(isDevelopment, options.target, options.manifestJson, options.userConfig.outDir),
+    CopyLocalesPlugin(isDevelopment, options.target),
+    CopyPngManifestPlugin(isDevelopment, options.target, pngManifestJson, options.userConfig.devManifest?.badge),
+    GenerateIconsPlugin(isDevelopment, options.userConfig.icon, options.userConfig.devManifest?.badge),
+    CopyPngHtmlPlugin(isDevelopment, options.target, options.manifestJson, options.userConfig.outDir),
+    CopyWebAccessibleResourcesPlugin(isDevelopment, options.target, options.manifestJson, options.userConfig.outDir),
+    CopyPublicPlugin(),
+    ...(options.userConfig.plugins || []),
   ];
 
   if (isDevelopment) {
     // Only add reload plugins if auto reload is enabled
     const reloadPlugins = options.reload
       ? [
-          ReloadBackgroundPlugin({ entry: options.entry.background, port: options.port }),
-          ReloadContentPlugin({ entry: options.entry.contentScript, port: options.port }),
-          ReloadPagePlugin({ entry: options.entry.extensionPage, port: options.port }),
+          ReloadBackgroundPlugin({
+            entry: options.entry.background,
+            port: options.port,
+            token: options.token,
+            forwardLogs: options.forwardLogs,
+            reinject: isReinject,
+          }),
+          ReloadContentPlugin({
+            entry: options.entry.contentScript,
+            webAccessibleEntry: getWebAccessibleEntries(options.manifestJson),
+            port: options.port,
+            token: options.token,
+            forwardLogs: options.forwardLogs,
+            reinject: isReinject,
+          }),
+          ReloadPagePlugin({
+            entry: options.entry.extensionPage,
+            port: options.port,
+            token: options.token,
+            forwardLogs: options.forwardLogs,
+          }),
         ]
       : [];
 
+    // Only add the hot update plugins if hot updates are enabled, the extension pages fall back to a reload otherwise
+    const hotPlugins = isHot ? [HotExtensionPagePlugin(options.entry.extensionPage, extensionPageLayer)] : [];
+
     return {
       ...config,
 
       cache: {
         type: 'filesystem',
+        // Build the modules again when browser-ext is updated, its loaders and plugins change the built modules.
+        // The package.json is next to dist, its version changes with every release.
+        buildDependencies: {
+          browserExt: [fileURLToPath(new URL('../package.json', import.meta.url))],
+        },
       },
 
       devtool: 'inline-source-map',
 
       output: {
         ...config.output,
-        path: pathToBrowserExt.chromeDev,
+        path: pathToTargetBuild(
+          options.target,
+          isDevelopment,
+          options.userConfig.outDir,
+          options.variant,
+          options.manifestVersion,
+        ),
       },
 
-      plugins: [...basePlugins, ...reloadPlugins].filter(Boolean),
+      plugins: [...basePlugins, ...reloadPlugins, ...hotPlugins].filter(Boolean),
 
       stats: 'errors-warnings',
     };
@@ -181,18 +337,24 @@ export function getConfig(options: ConfigOptionsDevelopment | ConfigOptionsProdu
     return {
       ...config,
 
-      // devtool: 'source-map', // Generates separate source maps
-      devtool: 'inline-source-map',
+      // Generates separate source maps, they are left out of the zip unless --source-maps is used
+      devtool: 'source-map',
 
       optimization: {
         ...config.optimization,
-        // minimize: true,
-        // moduleIds: 'deterministic',
+        minimize: true,
+        moduleIds: 'deterministic', // Keep the module ids stable between builds so the chunks are only changed by edits
       },
 
       output: {
         ...config.output,
-        path: pathToBrowserExt.chromeProd,
+        path: pathToTargetBuild(
+          options.target,
+          isDevelopment,
+          options.userConfig.outDir,
+          options.variant,
+          options.manifestVersion,
+        ),
       },
 
       plugins: [...basePlugins].filter(Boolean),
@@ -201,3 +363,81 @@ export function getConfig(options: ConfigOptionsDevelopment | ConfigOptionsProdu
 
   throw new Error('Invalid mode');
 }
+
+// Bundle the dynamic imports into the entry, background and content scripts can't load chunks on demand
+function getInlineEntries(entry: webpack.EntryObject, layer?: string, prepend: string[] = []) {
+  const entries: webpack.EntryObject = {};
+
+  Object.entries(entry).forEach(([name, value]) => {
+    entries[name] = { import: [...prepend, value as string], asyncChunks: false, layer };
+  });
+
+  return entries;
+}
+
+// Compile TypeScript and React, refresh adds the React Fast Refresh transform
+function getBabelLoader(refresh: boolean) {
+  return {
+    loader: 'babel-loader',
+    options: {
+      presets: ['@babel/preset-env', '@babel/preset-typescript', ['@babel/preset-react', { runtime: 'automatic' }]],
+      // Register the React components so they can be swapped by React Fast Refresh
+      plugins: refresh ? ['react-refresh/babel'] : [],
+      // Enable caching for faster rebuilds
+      cacheDirectory: true,
+    },
+  };
+}
+
+// Get a module of the client folder, it's built next to the other files in dist
+function getClientPath(name: string) {
+  return fileURLToPath(new URL(`./client/${name}.js`, import.meta.url));
+}
+
+// Add the hot client to every extension page, and build the pages in their own layer
+function getHotEntries(extensionPage: webpack.EntryObject) {
+  const hotClient = getClientPath('hotClient');
+  const entries: webpack.EntryObject = {};
+
+  Object.entries(extensionPage).forEach(([name, entry]) => {
+    entries[name] = { import: [hotClient, entry as string], layer: extensionPageLayer };
+  });
+
+  return entries;
+}
+
+// Add the scripting permission and the pages of the content scripts to the host permissions
+function getReinjectManifest(manifestJson: Manifest): Manifest {
+  const matches = (manifestJson.content_scripts || []).flatMap((contentScript) => contentScript.matches);
+
+  return {
+    ...manifestJson,
+    permissions: [...new Set([...(manifestJson.permissions || []), 'scripting'])],
+    host_permissions: [...new Set([...(manifestJson.host_permissions || []), ...matches])],
+  };
+}
+
+// Resolve the configured aliases, relative paths are relative to the root of the extension
+function getAliases(userConfig: BrowserExtConfig) {
+  const aliases: Record<string, string> = {};
+
+  Object.entries(userConfig.alias || {}).forEach(([alias, aliasPath]) => {
+    aliases[alias] = aliasPath.startsWith('.') ? path.resolve(pathToBrowserExt.root, aliasPath) : aliasPath;
+  });
+
+  return aliases;
+}
+
+export function getConfig(options: ConfigOptionsDevelopment | ConfigOptionsProduction): webpack.Configuration {
+  const config = getModeConfig(options);
+
+  // Let the browser-ext.config customise the final config
+  if (options.userConfig.webpack) {
+    return (
+      options.userConfig.webpack(config, { mode: options.mode, target: options.target, variant: options.variant }) ||
+      config
+    );
+  }
+
+  return config;
+}
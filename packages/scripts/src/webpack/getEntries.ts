@@ -1,10 +1,12 @@
 import path from 'path';
 import fs from 'fs-extra';
-import { glob } from 'glob';
 import { JSDOM } from 'jsdom';
 import webpack from 'webpack';
 
+import { getBackgroundScripts, getContentScripts, getWebAccessibleScripts } from '../manifest/manifestFields';
+import { Manifest } from '../manifest/manifestTypes';
 import { pathToBrowserExt } from '../utils/pathToBrowserExt';
+import { getHtmlPages, isRemoteUrl } from './getHtmlPages';
 
 // Get the entry from a path
 function getEntry(entryPath: string) {
@@ -23,64 +25,82 @@ function getEntry(entryPath: string) {
 function getBackgroundEntries(manifestJson: any) {
   const entries: webpack.EntryObject = {};
 
-  const serviceWorker = manifestJson.background?.service_worker;
+  getBackgroundScripts(manifestJson).forEach((script) => {
+    const entry = getEntry(script);
+    entries[entry.name] = entry.path;
+  });
+
+  return entries;
+}
+
+// Get the entries for the scripts in web_accessible_resources, e.g. scripts injected into the main world
+export function getWebAccessibleEntries(manifestJson: any) {
+  const entries: webpack.EntryObject = {};
 
-  if (serviceWorker) {
-    const entry = getEntry(serviceWorker);
+  getWebAccessibleScripts(manifestJson).forEach((script) => {
+    const entry = getEntry(script);
     entries[entry.name] = entry.path;
-  }
+  });
 
   return entries;
 }
 
-// Get the entries for the content scripts
+// Get the entries for the content scripts, including scripts injected from web_accessible_resources
 function getContentScriptEntries(manifestJson: any) {
   const entries: webpack.EntryObject = {};
 
-  const contentScripts = manifestJson.content_scripts;
-
-  if (contentScripts) {
-    contentScripts.forEach((contentScript: { js: string[] }) => {
-      if (contentScript.js) {
-        contentScript.js.forEach((js: string) => {
-          const entry = getEntry(js);
-          entries[entry.name] = entry.path;
-        });
-      }
-    });
+  getContentScripts(manifestJson).forEach((script) => {
+    const entry = getEntry(script);
+    entries[entry.name] = entry.path;
+  });
+
+  return Object.assign(entries, getWebAccessibleEntries(manifestJson));
+}
+
+// Get the entries of the scripts in an html page
+export function getHtmlPageEntries(htmlFile: string) {
+  const entries: webpack.EntryObject = {};
+  const htmlPath = path.join(pathToBrowserExt.root, htmlFile);
+
+  if (!fs.existsSync(htmlPath)) {
+    return entries;
   }
 
+  const dirname = path.dirname(htmlPath);
+  const content = fs.readFileSync(htmlPath);
+  const dom = new JSDOM(content.toString());
+
+  dom.window.document.querySelectorAll('script[src]').forEach((script) => {
+    const src = script.getAttribute('src') || '';
+
+    // Skip remote scripts, they can't be bundled
+    if (isRemoteUrl(src)) {
+      return;
+    }
+
+    const scriptPath = path.join(dirname, src);
+    const entry = getEntry(scriptPath);
+    entries[entry.name] = entry.path;
+  });
+
   return entries;
 }
 
-// Get the entries in any html files
-function getExtensionPageEntries() {
+// Get the entries in the html pages of the manifest and any other html files
+function getExtensionPageEntries(manifestJson: any, outDir?: string) {
   const entries: webpack.EntryObject = {};
 
-  glob
-    .sync('**/*.html', { cwd: pathToBrowserExt.root, ignore: ['node_modules/**/*', 'build/**/*'] })
-    .forEach((htmlFile) => {
-      const htmlPath = path.join(pathToBrowserExt.root, htmlFile);
-      const dirname = path.dirname(htmlPath);
-      const content = fs.readFileSync(htmlPath);
-      const dom = new JSDOM(content.toString());
-
-      dom.window.document.querySelectorAll('script').forEach((script) => {
-        const scriptPath = path.join(dirname, script.src);
-        const entry = getEntry(scriptPath);
-        entries[entry.name] = entry.path;
-      });
-    });
+  getHtmlPages(manifestJson, outDir).forEach((htmlFile) => {
+    Object.assign(entries, getHtmlPageEntries(htmlFile));
+  });
 
   return entries;
 }
 
-export function getEntries() {
-  const manifestJson = fs.readJSONSync(pathToBrowserExt.manifestJson);
-
+export function getEntries(manifestJson: Manifest, outDir?: string) {
   const backgroundEntries = getBackgroundEntries(manifestJson);
   const contentScriptEntries = getContentScriptEntries(manifestJson);
-  const extensionPageEntries = getExtensionPageEntries();
+  const extensionPageEntries = getExtensionPageEntries(manifestJson, outDir);
 
   return {
     background: backgroundEntries,
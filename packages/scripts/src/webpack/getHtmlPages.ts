@@ -0,0 +1,30 @@
+import path from 'path';
+import { glob } from 'glob';
+
+import { getManifestPages } from '../manifest/manifestFields';
+import { pathToBrowserExt, pathToBuild } from '../utils/pathToBrowserExt';
+
+// Get the folders to leave out when looking for files of the extension, including the builds in the configured outDir
+export function getIgnoredFolders(outDir?: string) {
+  const buildFolder = path.relative(pathToBrowserExt.root, pathToBuild(outDir)).split(path.sep).join('/');
+
+  return [...new Set(['node_modules/**/*', 'build/**/*', `${buildFolder}/**/*`])];
+}
+
+// Get the html pages referenced in the manifest and any other html files in the project (e.g. offscreen documents)
+export function getHtmlPages(manifestJson: any, outDir?: string) {
+  const htmlFiles = glob.sync('**/*.html', {
+    cwd: pathToBrowserExt.root,
+    // The files of the public folder are copied as they are
+    ignore: [...getIgnoredFolders(outDir), 'public/**/*'],
+  });
+
+  const pages = [...getManifestPages(manifestJson), ...htmlFiles].map((page) => path.normalize(page));
+
+  return [...new Set(pages)];
+}
+
+// Urls with a protocol (https:, data:, chrome-extension:...) or protocol relative urls aren't files of the extension
+export function isRemoteUrl(url: string) {
+  return /^([a-z][a-z0-9+.-]*:|\/\/)/i.test(url);
+}
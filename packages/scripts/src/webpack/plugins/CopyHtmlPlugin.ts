@@ -1,28 +1,34 @@
 import path from 'path';
 import CopyPlugin from 'copy-webpack-plugin';
-import { glob } from 'glob';
+import fs from 'fs-extra';
+import { JSDOM } from 'jsdom';
 
+import { Manifest } from '../../manifest/manifestTypes';
 import { pathToBrowserExt } from '../../utils/pathToBrowserExt';
+import { Target } from '../../utils/targets';
+import { getHtmlPages, isRemoteUrl } from '../getHtmlPages';
 
-// Find any .html files in the root of the project and copy them to the unpacked folder
-export function CopyHtmlPlugin(isDevelopment: boolean) {
-  const chromeTo = isDevelopment ? pathToBrowserExt.chromeDev : pathToBrowserExt.chromeProd;
-  const firefoxTo = isDevelopment ? pathToBrowserExt.firefoxDev : pathToBrowserExt.firefoxProd;
-
-  const patterns = glob
-    .sync('**/*.html', {
-      cwd: pathToBrowserExt.root,
-      ignore: ['node_modules/**/*', 'build/**/*'],
-    })
+// Find the .html pages of the manifest and any other .html files in the project and copy them to the unpacked folder
+export function CopyHtmlPlugin(isDevelopment: boolean, target: Target, manifestJson: Manifest, outDir?: string) {
+  const patterns = getHtmlPages(manifestJson, outDir)
+    .filter((htmlFile) => fs.existsSync(path.join(pathToBrowserExt.root, htmlFile)))
     .map((htmlFile) => {
       return {
         from: path.join(pathToBrowserExt.root, htmlFile),
-        to: path.join(chromeTo, htmlFile),
-        transform(content: Buffer, absoluteFrom: string) {
-          // Convert the buffer to a string
-          const html = content.toString();
-          // Replace any script tags with .jsx|.ts|.tsx with .js
-          return html.replace(/(<script.*src=".*)(\.jsx|\.ts|\.tsx)(".*)/g, '$1.js$3');
+        to: htmlFile,
+        transform(content: Buffer) {
+          const dom = new JSDOM(content.toString());
+
+          // Point the local scripts with .jsx|.ts|.tsx to the .js file of their entry
+          dom.window.document.querySelectorAll('script[src]').forEach((script) => {
+            const src = script.getAttribute('src') || '';
+
+            if (!isRemoteUrl(src)) {
+              script.setAttribute('src', src.replace(/\.(jsx|ts|tsx)$/, '.js'));
+            }
+          });
+
+          return dom.serialize();
         },
       };
     });
@@ -1,72 +1,210 @@
-import path from 'path';
-import CopyPlugin from 'copy-webpack-plugin';
 import fs from 'fs-extra';
+import webpack from 'webpack';
 
+import { BrowserExtConfig } from '../../config/defineConfig';
+import { getManifestPaths } from '../../manifest/loadManifest';
+import { getResourceFiles, isCompiledScript } from '../../manifest/manifestFields';
+import { Manifest } from '../../manifest/manifestTypes';
+import { ManifestVersion, toManifestV2 } from '../../manifest/toManifestV2';
+import { transformManifest } from '../../manifest/transformManifest';
 import { pathToBrowserExt } from '../../utils/pathToBrowserExt';
+import { Target } from '../../utils/targets';
+
+type DevManifest = NonNullable<BrowserExtConfig['devManifest']>;
 
 function replaceFileExtension(extension: string) {
   return extension.replace(/\.(jsx|tsx|ts)/, '.js');
 }
 
-// Replace special values in the manifest.json file and then copy it to the unpacked folder
-export function CopyManifestPlugin(isDevelopment: boolean) {
-  const chromeTo = isDevelopment ? pathToBrowserExt.chromeDev : pathToBrowserExt.chromeProd;
-  const firefoxTo = isDevelopment ? pathToBrowserExt.firefoxDev : pathToBrowserExt.firefoxProd;
+// Localized strings like __MSG_appName__ are replaced by the browser, a suffix would break the placeholder
+function appendNameSuffix(value: string, suffix: string) {
+  return value.startsWith('__MSG_') ? value : value + suffix;
+}
+
+// Apply the changes only made to the development build, like a stable key and a name that shows it's the dev build
+function applyDevManifest(manifestJson: any, devManifest: DevManifest) {
+  if (devManifest.key) {
+    manifestJson.key = devManifest.key;
+  }
+
+  if (devManifest.nameSuffix) {
+    manifestJson.name = appendNameSuffix(manifestJson.name, devManifest.nameSuffix);
+
+    if (manifestJson.action?.default_title) {
+      manifestJson.action.default_title = appendNameSuffix(manifestJson.action.default_title, devManifest.nameSuffix);
+    }
+  }
+
+  if (devManifest.permissions?.length) {
+    manifestJson.permissions = [...new Set([...(manifestJson.permissions || []), ...devManifest.permissions])];
+  }
+
+  if (devManifest.hostPermissions?.length) {
+    manifestJson.host_permissions = [
+      ...new Set([...(manifestJson.host_permissions || []), ...devManifest.hostPermissions]),
+    ];
+  }
+}
+
+// Get the images and fonts imported by the content scripts, they are loaded by the pages the scripts run on
+function getContentScriptAssets(compilation: webpack.Compilation, contentScripts: string[]) {
+  const assets = new Set<string>();
+
+  contentScripts.forEach((name) => {
+    compilation.entrypoints.get(name)?.chunks.forEach((chunk) => {
+      chunk.auxiliaryFiles.forEach((file) => {
+        // Source maps are auxiliary files as well, they don't need to be accessible
+        if (!file.endsWith('.map')) {
+          assets.add(file);
+        }
+      });
+    });
+  });
+
+  return [...assets].sort();
+}
+
+// Get the pages the content scripts run on, including the pages of the scripts injected from web_accessible_resources
+function getContentScriptMatches(manifest: Manifest) {
+  const matches = [
+    ...(manifest.content_scripts || []).flatMap((contentScript) => contentScript.matches || []),
+    ...(manifest.web_accessible_resources || [])
+      .filter((resource) => getResourceFiles(resource).some(isCompiledScript))
+      .flatMap((resource) => resource.matches || []),
+  ];
+
+  return [...new Set(matches)];
+}
+
+// Replace special values in the manifest
+function getManifestJson(
+  manifest: Manifest,
+  target: Target,
+  packageJson: any,
+  devManifest: DevManifest | undefined,
+  assets: string[],
+  manifestVersion: ManifestVersion,
+  warnings: string[],
+) {
+  // Copy the manifest so the other plugins keep seeing the original
+  const manifestJson: any = structuredClone(manifest);
+
+  // If the manifest doesn't have a name, use the package name
+  if (!manifestJson.name) {
+    manifestJson.name = packageJson.name;
+  }
 
+  // If the manifest doesn't have a version, use the package version
+  if (!manifestJson.version) {
+    manifestJson.version = packageJson.version;
+  }
+
+  // If the manifest doesn't have a description, use the package description
+  if (!manifestJson.description) {
+    manifestJson.description = packageJson.description;
+  }
+
+  if (devManifest) {
+    applyDevManifest(manifestJson, devManifest);
+  }
+
+  // Replace file extensions in background.service_worker
+  if (manifestJson.background?.service_worker) {
+    manifestJson.background.service_worker = replaceFileExtension(manifestJson.background.service_worker);
+  }
+
+  // Replace file extensions in background.scripts
+  if (manifestJson.background?.scripts) {
+    manifestJson.background.scripts = manifestJson.background.scripts.map(replaceFileExtension);
+  }
+
+  // Replace file extensions in content_scripts
+  if (manifestJson.content_scripts) {
+    manifestJson.content_scripts.forEach((contentScript: { js: string[] }) => {
+      if (contentScript.js) {
+        contentScript.js = contentScript.js.map(replaceFileExtension);
+      }
+    });
+  }
+
+  // Replace file extensions in web_accessible_resources
+  if (manifestJson.web_accessible_resources) {
+    manifestJson.web_accessible_resources.forEach((resource: { resources: string[] }) => {
+      if (resource.resources) {
+        resource.resources = resource.resources.map((value) =>
+          isCompiledScript(value) ? replaceFileExtension(value) : value,
+        );
+      }
+    });
+  }
+
+  // Convert the manifest for the browsers that need Manifest V2, before the changes made for the target browser
+  if (manifestVersion === 2) {
+    toManifestV2(manifestJson, warnings);
+  }
+
+  // Make the assets of the content scripts accessible to the pages the content scripts run on, Manifest V2 lists the
+  // files and every page can load them
+  if (assets.length) {
+    manifestJson.web_accessible_resources = [
+      ...(manifestJson.web_accessible_resources || []),
+      ...(manifestVersion === 2 ? assets : [{ resources: assets, matches: getContentScriptMatches(manifest) }]),
+    ];
+  }
+
+  // Convert the manifest into the format the target browser expects
+  return transformManifest(manifestJson, target, packageJson);
+}
+
+// Replace special values in the manifest and then emit it as manifest.json in the unpacked folder
+export function CopyManifestPlugin(
+  isDevelopment: boolean,
+  target: Target,
+  manifest: Manifest,
+  variant?: string,
+  devManifest?: DevManifest,
+  contentScripts: string[] = [],
+  manifestVersion: ManifestVersion = 3,
+): webpack.WebpackPluginInstance {
   const packageJson = fs.readJSONSync(pathToBrowserExt.packageJson);
 
-  return new CopyPlugin({
-    patterns: [
-      {
-        from: './manifest.json',
-        to: path.join(chromeTo, 'manifest.json'),
-        transform(content) {
-          // Parse the manifest template
-          const manifestJson = JSON.parse(content.toString());
-
-          // If the manifest doesn't have a name, use the package name
-          if (!manifestJson.name) {
-            manifestJson.name = packageJson.name;
-          }
-
-          // If the manifest doesn't have a version, use the package version
-          if (!manifestJson.version) {
-            manifestJson.version = packageJson.version;
-          }
-
-          // If the manifest doesn't have a description, use the package description
-          if (!manifestJson.description) {
-            manifestJson.description = packageJson.description;
-          }
-
-          // Replace file extensions in background.service_worker
-          if (manifestJson.background?.service_worker) {
-            manifestJson.background.service_worker = replaceFileExtension(manifestJson.background.service_worker);
-          }
-
-          // Replace file extensions in content_scripts
-          if (manifestJson.content_scripts) {
-            manifestJson.content_scripts.forEach((contentScript: { js: string[] }) => {
-              if (contentScript.js) {
-                contentScript.js = contentScript.js.map(replaceFileExtension);
-              }
-            });
-          }
-
-          // Replace file extensions in web_accessible_resources
-          if (manifestJson.web_accessible_resources) {
-            manifestJson.web_accessible_resources.forEach((resource: { resources: string[] }) => {
-              if (resource.resources) {
-                resource.resources = resource.resources.map(replaceFileExtension);
-              }
+  return {
+    apply(compiler) {
+      compiler.hooks.thisCompilation.tap('CopyManifestPlugin', (compilation) => {
+        compilation.hooks.processAssets.tap(
+          {
+            name: 'CopyManifestPlugin',
+            stage: webpack.Compilation.PROCESS_ASSETS_STAGE_ADDITIONAL,
+          },
+          () => {
+            // Features of the manifest that are lost in the conversion to Manifest V2
+            const warnings: string[] = [];
+
+            const manifestJson = getManifestJson(
+              manifest,
+              target,
+              packageJson,
+              isDevelopment ? devManifest : undefined,
+              getContentScriptAssets(compilation, contentScripts),
+              manifestVersion,
+              warnings,
+            );
+
+            warnings.forEach((warning) => {
+              compilation.warnings.push(new webpack.WebpackError(`manifest.json (${target}): ${warning}`));
             });
-          }
-
-          // TODO: Type check the manifest against the schema here
-          // Return the stringified manifest with pretty printing
-          return JSON.stringify(manifestJson, null, 2);
-        },
-      },
-    ],
-  });
+
+            // Watch the manifest so dev can resolve the entries again when it changes
+            getManifestPaths(variant).forEach((manifestPath) => compilation.fileDependencies.add(manifestPath));
+
+            // Emit the stringified manifest with pretty printing
+            compilation.emitAsset(
+              'manifest.json',
+              new webpack.sources.RawSource(JSON.stringify(manifestJson, null, 2)),
+            );
+          },
+        );
+      });
+    },
+  };
 }
@@ -1,3 +1,216 @@
-export function CopyPngHtmlPlugin(isDevelopment: boolean) {
-  return null;
+import path from 'path';
+import fs from 'fs-extra';
+import { JSDOM } from 'jsdom';
+import { Declaration, Plugin } from 'postcss';
+import webpack from 'webpack';
+
+import { Manifest } from '../../manifest/manifestTypes';
+import { pathToBrowserExt } from '../../utils/pathToBrowserExt';
+import { processCss } from '../../utils/processCss';
+import { Target } from '../../utils/targets';
+import { getHtmlPages, isRemoteUrl } from '../getHtmlPages';
+
+// Attributes of the html pages that reference a single file, e.g. <img src> or <link rel="stylesheet" href>
+const urlAttributes = [
+  { selector: 'img[src], source[src], audio[src], video[src], track[src], input[type="image"][src]', attribute: 'src' },
+  { selector: 'video[poster]', attribute: 'poster' },
+  { selector: 'link[rel~="icon"][href], link[rel="apple-touch-icon"][href]', attribute: 'href' },
+  { selector: 'link[rel="preload"][as="font"][href], link[rel="preload"][as="image"][href]', attribute: 'href' },
+  { selector: 'link[rel~="stylesheet"][href]', attribute: 'href' },
+];
+
+// Attributes that reference a list of files with their width or density, e.g. <img srcset="logo.png 1x, logo@2x.png 2x">
+const srcsetAttributes = [{ selector: 'img[srcset], source[srcset]', attribute: 'srcset' }];
+
+type HashFunction = NonNullable<webpack.Compilation['outputOptions']['hashFunction']>;
+
+// The files each html page references, directly or through its stylesheets, by compilation
+const htmlPageFiles = new WeakMap<webpack.Compilation, Map<string, string[]>>();
+
+// Get the source files of every html page, including the page itself, so dev can reload the page when one changes
+export function getHtmlPageFiles(compilation: webpack.Compilation) {
+  return htmlPageFiles.get(compilation) || new Map<string, string[]>();
+}
+
+// Get a file and every file it references, e.g. the fonts of a stylesheet of a page
+function getReferencedFiles(file: string, references: Map<string, Set<string>>, files = new Set<string>()) {
+  files.add(file);
+
+  references.get(file)?.forEach((reference) => {
+    if (!files.has(reference)) {
+      getReferencedFiles(reference, references, files);
+    }
+  });
+
+  return files;
+}
+
+// The assets are copied to a single folder and named after their content, so they can be cached forever
+function getAssetName(sourcePath: string, content: Buffer | string, hashFunction: HashFunction) {
+  const parsed = path.parse(sourcePath);
+  const hash = webpack.util.createHash(hashFunction).update(content).digest('hex').toString().slice(0, 8);
+
+  return `assets/${parsed.name}.${hash}${parsed.ext}`;
+}
+
+// Split a url into the path of the file and its query or hash, e.g. font.woff2?#iefix
+function splitUrl(url: string): [string, string] {
+  const index = url.search(/[?#]/);
+
+  return index === -1 ? [url, ''] : [url.slice(0, index), url.slice(index)];
+}
+
+// Copy the images, favicons, fonts and stylesheets referenced from the html pages, and point the pages to the copies.
+// The stylesheets go through PostCSS, and the files referenced with url() in them are copied as well.
+export function CopyPngHtmlPlugin(
+  isDevelopment: boolean,
+  target: Target,
+  manifestJson: Manifest,
+  outDir?: string,
+): webpack.WebpackPluginInstance | null {
+  const htmlPages = getHtmlPages(manifestJson, outDir).filter((htmlFile) =>
+    fs.existsSync(path.join(pathToBrowserExt.root, htmlFile)),
+  );
+
+  if (!htmlPages.length) {
+    return null;
+  }
+
+  return {
+    apply(compiler) {
+      compiler.hooks.thisCompilation.tap('CopyPngHtmlPlugin', (compilation) => {
+        // Copy each file once, even when several pages or stylesheets reference it
+        const assetNames = new Map<string, string>();
+
+        // The files each page or stylesheet references
+        const references = new Map<string, Set<string>>();
+
+        // Get the url of the copy of a file referenced from the page or stylesheet at fromPath
+        async function copyAsset(url: string, fromPath: string, referencedFrom: string) {
+          const [filePath, suffix] = splitUrl(url);
+
+          if (!filePath || isRemoteUrl(url) || url.startsWith('#')) {
+            return url;
+          }
+
+          // Absolute paths are relative to the root of the extension
+          const sourcePath = filePath.startsWith('/')
+            ? path.join(pathToBrowserExt.root, decodeURI(filePath))
+            : path.join(path.dirname(fromPath), decodeURI(filePath));
+
+          // Copy the file again when it changes
+          compilation.fileDependencies.add(sourcePath);
+
+          if (!references.has(fromPath)) {
+            references.set(fromPath, new Set());
+          }
+
+          references.get(fromPath)!.add(sourcePath);
+
+          if (!assetNames.has(sourcePath)) {
+            if (!fs.existsSync(sourcePath)) {
+              compilation.errors.push(
+                new webpack.WebpackError(`${referencedFrom} references ${filePath}, which doesn't exist`),
+              );
+              return url;
+            }
+
+            const content: Buffer | string =
+              path.extname(sourcePath) === '.css' ? await copyStylesheet(sourcePath) : fs.readFileSync(sourcePath);
+            const assetName = getAssetName(sourcePath, content, compilation.outputOptions.hashFunction!);
+
+            assetNames.set(sourcePath, assetName);
+            compilation.emitAsset(assetName, new webpack.sources.RawSource(content));
+          }
+
+          return `/${assetNames.get(sourcePath)}${suffix}`;
+        }
+
+        // Run a stylesheet through PostCSS and copy the fonts and images it references
+        async function copyStylesheet(sourcePath: string) {
+          const relativePath = path.relative(pathToBrowserExt.root, sourcePath);
+          const copyUrls: Plugin = {
+            postcssPlugin: 'browser-ext-copy-urls',
+            // Walk the declarations once, the urls would be copied again if the changed declarations were visited
+            async Once(root) {
+              const declarations: Declaration[] = [];
+
+              root.walkDecls((declaration) => {
+                if (declaration.value.includes('url(')) {
+                  declarations.push(declaration);
+                }
+              });
+
+              for (const declaration of declarations) {
+                const urls = [...declaration.value.matchAll(/url\(\s*(['"]?)([^'")]+)\1\s*\)/g)];
+                let value = declaration.value;
+
+                for (const [match, quote, url] of urls) {
+                  const assetUrl = await copyAsset(url!.trim(), sourcePath, relativePath);
+                  value = value.replace(match, `url(${quote}${assetUrl}${quote})`);
+                }
+
+                declaration.value = value;
+              }
+            },
+          };
+
+          return processCss(fs.readFileSync(sourcePath).toString(), sourcePath, relativePath, [copyUrls]);
+        }
+
+        compilation.hooks.processAssets.tapPromise(
+          {
+            name: 'CopyPngHtmlPlugin',
+            // The pages are copied by CopyHtmlPlugin at the additional stage
+            stage: webpack.Compilation.PROCESS_ASSETS_STAGE_PRE_PROCESS,
+          },
+          async () => {
+            const pageFiles = new Map<string, string[]>();
+
+            for (const htmlFile of htmlPages) {
+              const asset = compilation.getAsset(htmlFile);
+
+              if (!asset) {
+                continue;
+              }
+
+              const htmlPath = path.join(pathToBrowserExt.root, htmlFile);
+              const dom = new JSDOM(asset.source.source().toString());
+              const document = dom.window.document;
+
+              for (const { selector, attribute } of urlAttributes) {
+                for (const element of document.querySelectorAll(selector)) {
+                  const url = element.getAttribute(attribute) || '';
+                  element.setAttribute(attribute, await copyAsset(url.trim(), htmlPath, htmlFile));
+                }
+              }
+
+              for (const { selector, attribute } of srcsetAttributes) {
+                for (const element of document.querySelectorAll(selector)) {
+                  const candidates = (element.getAttribute(attribute) || '').split(',').map((candidate) => {
+                    const [url = '', ...descriptors] = candidate.trim().split(/\s+/);
+                    return { url, descriptors };
+                  });
+
+                  for (const candidate of candidates) {
+                    candidate.url = await copyAsset(candidate.url, htmlPath, htmlFile);
+                  }
+
+                  element.setAttribute(
+                    attribute,
+                    candidates.map(({ url, descriptors }) => [url, ...descriptors].join(' ')).join(', '),
+                  );
+                }
+              }
+
+              compilation.updateAsset(htmlFile, new webpack.sources.RawSource(dom.serialize()));
+              pageFiles.set(htmlFile, [...getReferencedFiles(htmlPath, references)]);
+            }
+
+            htmlPageFiles.set(compilation, pageFiles);
+          },
+        );
+      });
+    },
+  };
 }
@@ -1,29 +1,40 @@
 import path from 'path';
-import CopyPlugin from 'copy-webpack-plugin';
+import CopyPlugin, { Pattern } from 'copy-webpack-plugin';
 import { flatten } from 'flat';
-import fs from 'fs-extra';
 
+import { Manifest } from '../../manifest/manifestTypes';
+import { addDevBadge } from '../../utils/devBadge';
 import { pathToBrowserExt } from '../../utils/pathToBrowserExt';
+import { Target } from '../../utils/targets';
+import { isPublicOnlyFile } from './CopyPublicPlugin';
 
-export function CopyPngManifestPlugin(isDevelopment: boolean) {
-  const chromeTo = isDevelopment ? pathToBrowserExt.chromeDev : pathToBrowserExt.chromeProd;
-  const firefoxTo = isDevelopment ? pathToBrowserExt.firefoxDev : pathToBrowserExt.firefoxProd;
-
-  const manifestJson = fs.readJSONSync(pathToBrowserExt.manifestJson);
-
-  // Flatten the manifest.json object so we can search for any .png files easily
-  const flatManifestJson = flatten<any, any>(manifestJson);
+// The icons of the extension and its action, e.g. icons.128 or action.default_icon.16
+function isIcon(key: string) {
+  return key.startsWith('icons.') || key.startsWith('action.default_icon');
+}
 
-  // Find any .png files in the manifest.json and copy them to the unpacked folder
-  const patterns = Object.values(flatManifestJson).reduce<string[]>((acc: any[], value: any) => {
+export function CopyPngManifestPlugin(
+  isDevelopment: boolean,
+  target: Target,
+  manifestJson: Manifest,
+  devBadge?: boolean,
+) {
+  // Flatten the manifest object so we can search for any .png files easily
+  const flatManifestJson = flatten<Manifest, Record<string, unknown>>(manifestJson);
+
+  // Find any .png files in the manifest and copy them to the unpacked folder
+  const patterns = Object.entries(flatManifestJson).reduce<Pattern[]>((acc, [key, value]) => {
     if (typeof value === 'string') {
       const parsed = path.parse(value);
       const isPng = parsed.ext === '.png';
 
-      if (isPng) {
+      // Files only in the public folder are copied as they are by the CopyPublicPlugin
+      if (isPng && !isPublicOnlyFile(value)) {
         acc.push({
           from: path.join(pathToBrowserExt.root, value),
-          to: path.join(chromeTo, value),
+          to: value,
+          // Show the development build is running with a badge on its icons
+          transform: isDevelopment && devBadge && isIcon(key) ? addDevBadge : undefined,
         });
       }
     }
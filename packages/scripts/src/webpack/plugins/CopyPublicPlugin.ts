@@ -0,0 +1,31 @@
+import path from 'path';
+import CopyPlugin from 'copy-webpack-plugin';
+import fs from 'fs-extra';
+
+import { pathToBrowserExt } from '../../utils/pathToBrowserExt';
+
+// Whether a file referenced by the manifest only exists in the public folder, this plugin copies it then
+export function isPublicOnlyFile(file: string) {
+  return (
+    !fs.existsSync(path.join(pathToBrowserExt.root, file)) && fs.existsSync(path.join(pathToBrowserExt.public, file))
+  );
+}
+
+// Copy the files of the public folder to the root of every build as they are, e.g. public/rules/ads.json is fetched
+// as rules/ads.json. They are files the extension loads at runtime, such as rulesets, datasets, wasm and sounds.
+export function CopyPublicPlugin() {
+  if (!fs.existsSync(pathToBrowserExt.public)) {
+    return null;
+  }
+
+  return new CopyPlugin({
+    patterns: [
+      {
+        from: pathToBrowserExt.public,
+        to: '.',
+        // An empty public folder is fine
+        noErrorOnMissing: true,
+      },
+    ],
+  });
+}
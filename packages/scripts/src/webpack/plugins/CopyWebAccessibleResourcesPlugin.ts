@@ -1,39 +1,42 @@
 import path from 'path';
 import CopyPlugin from 'copy-webpack-plugin';
-import fs from 'fs-extra';
 import { glob } from 'glob';
 
+import { getResourceFiles, isCompiledScript } from '../../manifest/manifestFields';
+import { Manifest } from '../../manifest/manifestTypes';
 import { pathToBrowserExt } from '../../utils/pathToBrowserExt';
-
-export function CopyWebAccessibleResourcesPlugin(isDevelopment: boolean) {
-  const chromeTo = isDevelopment ? pathToBrowserExt.chromeDev : pathToBrowserExt.chromeProd;
-  const firefoxTo = isDevelopment ? pathToBrowserExt.firefoxDev : pathToBrowserExt.firefoxProd;
-
-  const manifestPath = path.join(pathToBrowserExt.root, 'manifest.json');
-  const manifestJson = fs.readJSONSync(manifestPath);
-
+import { Target } from '../../utils/targets';
+import { getIgnoredFolders } from '../getHtmlPages';
+
+export function CopyWebAccessibleResourcesPlugin(
+  isDevelopment: boolean,
+  target: Target,
+  manifestJson: Manifest,
+  outDir?: string,
+) {
   if (!manifestJson.web_accessible_resources) {
     return null;
   }
 
-  // Get resource patterns from manifest (MV3 format)
+  // Get resource patterns from manifest, in the MV3 or MV2 format
   const resourcePatterns: string[] = [];
 
   // Loop through each resource and add it to the patterns
-  manifestJson.web_accessible_resources.forEach((resource: { resources: string[] }) => {
-    resourcePatterns.push(...resource.resources);
+  manifestJson.web_accessible_resources.forEach((resource: any) => {
+    resourcePatterns.push(...getResourceFiles(resource));
   });
 
-  // Find all files matching the patterns
+  // Find all files matching the patterns, skipping scripts that webpack compiles as entries
   const patterns = resourcePatterns.flatMap((pattern) => {
     return glob
       .sync(pattern, {
         cwd: pathToBrowserExt.root,
-        ignore: ['node_modules/**/*', 'build/**/*'],
+        ignore: getIgnoredFolders(outDir),
       })
+      .filter((file) => !isCompiledScript(file))
       .map((file) => ({
         from: path.join(pathToBrowserExt.root, file),
-        to: path.join(chromeTo, file),
+        to: file,
       }));
   });
 
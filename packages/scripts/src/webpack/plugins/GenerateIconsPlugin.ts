@@ -0,0 +1,176 @@
+import path from 'path';
+import { Resvg } from '@resvg/resvg-js';
+import fs from 'fs-extra';
+import { PNG } from 'pngjs';
+import webpack from 'webpack';
+
+import { Manifest, ManifestAction } from '../../manifest/manifestTypes';
+import { addDevBadge } from '../../utils/devBadge';
+import { pathToBrowserExt } from '../../utils/pathToBrowserExt';
+
+// Sizes Chrome and Firefox use for the icons of the extension and of its action
+const iconSizes = [16, 32, 48, 128];
+const actionIconSizes = [16, 24, 32];
+
+// Svg images are rendered at this width before being scaled down to every size
+const svgRenderSize = 512;
+
+function getIconPath(size: number) {
+  return `icons/icon-${size}.png`;
+}
+
+function getIconPaths(sizes: number[]) {
+  return Object.fromEntries(sizes.map((size) => [String(size), getIconPath(size)]));
+}
+
+// The actions a manifest can declare, browser_action is the Manifest V2 name of action
+const actionKeys = ['action', 'browser_action'] as const;
+
+// Reference the generated icons in the manifest, replacing the icons and action icons it may already have. Only the
+// actions the manifest declares get icons, a new action would add a toolbar button to the extension.
+export function getIconsManifest(manifestJson: Manifest, icon: string | undefined): Manifest {
+  if (!icon) {
+    return manifestJson;
+  }
+
+  const iconsManifest: Manifest = { ...manifestJson, icons: getIconPaths(iconSizes) };
+
+  actionKeys.forEach((key) => {
+    const action = manifestJson[key] as ManifestAction | undefined;
+
+    if (action) {
+      iconsManifest[key] = { ...action, default_icon: getIconPaths(actionIconSizes) };
+    }
+  });
+
+  return iconsManifest;
+}
+
+// Remove the icons and action icons of the manifest, they are generated instead of copied
+export function omitIcons(manifestJson: Manifest): Manifest {
+  const { icons, ...rest } = manifestJson;
+
+  actionKeys.forEach((key) => {
+    const action = manifestJson[key] as ManifestAction | undefined;
+
+    if (action) {
+      const { default_icon, ...actionWithoutIcon } = action;
+      rest[key] = actionWithoutIcon;
+    }
+  });
+
+  return rest;
+}
+
+// Scale an image into a square of the given size, averaging the pixels it covers. Images that aren't square are
+// centered on a transparent background.
+function resizePng(source: PNG, size: number) {
+  const output = new PNG({ width: size, height: size });
+  const scale = Math.max(source.width, source.height) / size;
+  const offsetX = (size - source.width / scale) / 2;
+  const offsetY = (size - source.height / scale) / 2;
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const left = (x - offsetX) * scale;
+      const top = (y - offsetY) * scale;
+      let red = 0;
+      let green = 0;
+      let blue = 0;
+      let alpha = 0;
+
+      for (let sourceY = Math.max(0, Math.floor(top)); sourceY < Math.min(source.height, top + scale); sourceY++) {
+        const height = Math.min(sourceY + 1, top + scale) - Math.max(sourceY, top);
+
+        for (let sourceX = Math.max(0, Math.floor(left)); sourceX < Math.min(source.width, left + scale); sourceX++) {
+          const weight = (Math.min(sourceX + 1, left + scale) - Math.max(sourceX, left)) * height;
+          const index = (source.width * sourceY + sourceX) * 4;
+          const pixelAlpha = source.data[index + 3]! * weight;
+
+          // Weigh the colors by their alpha so transparent pixels don't darken the edges
+          red += source.data[index]! * pixelAlpha;
+          green += source.data[index + 1]! * pixelAlpha;
+          blue += source.data[index + 2]! * pixelAlpha;
+          alpha += pixelAlpha;
+        }
+      }
+
+      const index = (size * y + x) * 4;
+      output.data[index] = alpha ? Math.round(red / alpha) : 0;
+      output.data[index + 1] = alpha ? Math.round(green / alpha) : 0;
+      output.data[index + 2] = alpha ? Math.round(blue / alpha) : 0;
+      output.data[index + 3] = Math.round(alpha / (scale * scale));
+    }
+  }
+
+  return output;
+}
+
+function readSource(sourcePath: string) {
+  const content = fs.readFileSync(sourcePath);
+
+  if (path.extname(sourcePath) === '.svg') {
+    const rendered = new Resvg(content, { fitTo: { mode: 'width', value: svgRenderSize } }).render().asPng();
+    return PNG.sync.read(rendered);
+  }
+
+  return PNG.sync.read(content);
+}
+
+// Generate every size of the icons and action icons from a single png or svg image
+export function GenerateIconsPlugin(
+  isDevelopment: boolean,
+  icon: string | undefined,
+  devBadge?: boolean,
+): webpack.WebpackPluginInstance | null {
+  if (!icon) {
+    return null;
+  }
+
+  const sourcePath = path.join(pathToBrowserExt.root, icon);
+  const sizes = [...new Set([...iconSizes, ...actionIconSizes])];
+  const largestSize = Math.max(...sizes);
+
+  return {
+    apply(compiler) {
+      compiler.hooks.thisCompilation.tap('GenerateIconsPlugin', (compilation) => {
+        compilation.hooks.processAssets.tap(
+          {
+            name: 'GenerateIconsPlugin',
+            stage: webpack.Compilation.PROCESS_ASSETS_STAGE_ADDITIONAL,
+          },
+          () => {
+            // Generate the icons again when the image changes
+            compilation.fileDependencies.add(sourcePath);
+
+            let source: PNG;
+
+            try {
+              source = readSource(sourcePath);
+            } catch (error) {
+              compilation.errors.push(new webpack.WebpackError(`Could not read the icon ${icon}: ${error}`));
+              return;
+            }
+
+            if (source.width < largestSize || source.height < largestSize) {
+              compilation.warnings.push(
+                new webpack.WebpackError(
+                  `The icon ${icon} is ${source.width}x${source.height}, use an image of at least ${largestSize}x${largestSize} pixels or an svg so the large icons aren't blurry`,
+                ),
+              );
+            }
+
+            sizes.forEach((size) => {
+              const png = PNG.sync.write(resizePng(source, size));
+
+              // Show the development build is running with a badge on its icons
+              const content = isDevelopment && devBadge ? addDevBadge(png) : png;
+
+              compilation.emitAsset(getIconPath(size), new webpack.sources.RawSource(content));
+            });
+          },
+        );
+      });
+    },
+  };
+}
@@ -0,0 +1,117 @@
+import ReactRefreshPlugin from '@pmmmwh/react-refresh-webpack-plugin';
+import webpack from 'webpack';
+
+// Plugins whose hooks are only run for the extension pages
+const hotPluginNames = ['HotModuleReplacementPlugin', 'ReactRefreshPlugin'];
+
+// Expressions the HotModuleReplacementPlugin compiles to the hot update api of the module
+const hotExpressions = ['module.hot', 'import.meta.webpackHot'];
+
+interface Tap {
+  name: string;
+  fn: Function;
+}
+
+interface Interceptable<T extends Tap> {
+  intercept(interceptor: { register?: (tap: T) => T }): void;
+}
+
+// Skip the taps of the hot update plugins unless the check passes, e.g. for a module of an extension page
+function filterHotTaps<T extends Tap>(hook: Interceptable<T>, check: (...args: any[]) => boolean) {
+  hook.intercept({
+    register: (tap) => {
+      if (!hotPluginNames.includes(tap.name)) {
+        return tap;
+      }
+
+      return { ...tap, fn: (...args: any[]) => (check(...args) ? tap.fn(...args) : undefined) };
+    },
+  });
+}
+
+// Hot update the extension pages with React Fast Refresh. The background and content scripts are reloaded instead,
+// so their modules are built without the hot update and refresh code. The modules of the extension pages are built in
+// their own layer to tell them apart.
+export function HotExtensionPagePlugin(entry: webpack.EntryObject, layer: string): webpack.WebpackPluginInstance {
+  const pageNames = Object.keys(entry);
+
+  return {
+    apply(compiler) {
+      new webpack.HotModuleReplacementPlugin().apply(compiler);
+      new ReactRefreshPlugin({ overlay: false }).apply(compiler);
+
+      // The refresh runtime is added to every entry, move it to the extension pages
+      compiler.hooks.finishMake.tap('HotExtensionPagePlugin', (compilation) => {
+        const isRefreshEntry = (dependency: webpack.Dependency) =>
+          (dependency as webpack.dependencies.ModuleDependency).request?.includes('react-refresh-webpack-plugin');
+        const refreshDependencies = compilation.globalEntry.dependencies.filter(isRefreshEntry);
+
+        compilation.globalEntry.dependencies = compilation.globalEntry.dependencies.filter(
+          (dependency) => !isRefreshEntry(dependency),
+        );
+
+        pageNames.forEach((name) => {
+          compilation.entries.get(name)?.dependencies.unshift(...refreshDependencies);
+        });
+      });
+
+      compiler.hooks.thisCompilation.tap('HotExtensionPagePlugin', (compilation, { normalModuleFactory }) => {
+        // Only the runtimes of the extension pages download hot updates, every entry has its own runtime
+        filterHotTaps(compilation.hooks.additionalTreeRuntimeRequirements, (chunk: webpack.Chunk) =>
+          pageNames.includes(chunk.name!),
+        );
+
+        // Only add the refresh loader and mark the modules as hot (e.g. style-loader accepts its updates) in the pages
+        filterHotTaps(
+          normalModuleFactory.hooks.afterResolve,
+          (resolveData: webpack.ResolveData) => resolveData.createData.layer === layer,
+        );
+        filterHotTaps(normalModuleFactory.hooks.module, (module, createData) => createData.layer === layer);
+        filterHotTaps(
+          webpack.NormalModule.getCompilationHooks(compilation).loader,
+          (context, module: webpack.NormalModule) => module.layer === layer,
+        );
+
+        // Leave module.hot undefined outside of the pages, it's compiled to a truthy value otherwise
+        ['javascript/auto', 'javascript/dynamic', 'javascript/esm'].forEach((type) => {
+          normalModuleFactory.hooks.parser
+            .for(type)
+            // Run after the HotModuleReplacementPlugin added its hooks to the parser
+            .tap({ name: 'HotExtensionPagePlugin', stage: 1 }, (parser: webpack.javascript.JavascriptParser) => {
+              const isPageModule = () => parser.state.module?.layer === layer;
+
+              hotExpressions.forEach((expression) => {
+                filterHotTaps(parser.hooks.evaluateIdentifier.for(expression), isPageModule);
+                filterHotTaps(parser.hooks.expression.for(expression), isPageModule);
+                filterHotTaps(parser.hooks.call.for(`${expression}.accept`), isPageModule);
+                filterHotTaps(parser.hooks.call.for(`${expression}.decline`), isPageModule);
+              });
+            });
+        });
+
+        // The hot updates of the background and content scripts would never be downloaded
+        compilation.hooks.processAssets.tap(
+          {
+            name: 'HotExtensionPagePlugin',
+            stage: webpack.Compilation.PROCESS_ASSETS_STAGE_OPTIMIZE,
+          },
+          () => {
+            // Hot updates are named after their chunk or runtime, e.g. src/bg/index.1a2b3c4d.hot-update.js and
+            // src_bg_index.1a2b3c4d.hot-update.json
+            const scriptNames = [...compilation.entries.keys()]
+              .filter((name) => !pageNames.includes(name))
+              .flatMap((name) => [name, name.replace(/(^[.-]|[^a-zA-Z0-9_-])+/g, '_')]);
+
+            compilation.getAssets().forEach((asset) => {
+              const name = asset.name.replace(/\.[0-9a-f]+\.hot-update\.js(on)?$/, '');
+
+              if (asset.info.hotModuleReplacement && scriptNames.includes(name)) {
+                compilation.deleteAsset(asset.name);
+              }
+            });
+          },
+        );
+      });
+    },
+  };
+}
@@ -1,18 +1,67 @@
 import webpack from 'webpack';
 
-const banner = (port: number) => `
+import { getDevServerUrl, protocolVersion } from '../../utils/devProtocol';
+import { forwardLogs } from './forwardLogs';
+
+// Inject the new version of a content script into the frame that asked for it, along with the css of the manifest
+const reinjectListener = () => `
+  async function reinjectContentScript(entry, sender) {
+    const file = entry + '.js';
+    const contentScript = (chrome.runtime.getManifest().content_scripts || []).find((item) => (item.js || []).includes(file));
+    const target = { tabId: sender.tab.id, frameIds: [sender.frameId] };
+
+    if (contentScript && contentScript.css) {
+      await chrome.scripting.removeCSS({ target: target, files: contentScript.css });
+      await chrome.scripting.insertCSS({ target: target, files: contentScript.css });
+    }
+
+    await chrome.scripting.executeScript({ target: target, files: [file], world: (contentScript && contentScript.world) || 'ISOLATED' });
+  }
+
+  chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
+    if (message.type !== 'browser-ext:reinject' || !sender.tab) {
+      return;
+    }
+
+    reinjectContentScript(message.entry, sender).then(
+      () => sendResponse(true),
+      (error) => {
+        console.error('Failed to re-inject ' + message.entry, error);
+        sendResponse(false);
+      },
+    );
+
+    // Keep the message channel open for the async response
+    return true;
+  });
+`;
+
+const banner = (port: number, token: string, shouldForwardLogs: boolean, reinject: boolean) => `
 (() => {
+  ${reinject ? reinjectListener() : ''}
+
+  ${shouldForwardLogs ? forwardLogs("'background'") : ''}
+
   function connect() {
-    const ws = new WebSocket('ws://localhost:${port}');
+    const ws = new WebSocket('${getDevServerUrl(port, token)}');
     
+    ${shouldForwardLogs ? 'ws.onopen = () => startForwardingLogs(ws);' : ''}
+
     // Handle connection errors gracefully without throwing
     ws.onerror = () => {
       console.log('WebSocket connection failed. Retrying in 1s...');
     };
         
     ws.onmessage = (event) => {
+      const message = JSON.parse(event.data);
+
+      // Ignore messages from a dev server speaking another version of the protocol
+      if (message.version !== ${protocolVersion}) {
+        return;
+      }
+
       // Only reload on background-specific reload message
-      if (event.data === 'reload-background') {
+      if (message.type === 'reload' && message.scope === 'background') {
         chrome.runtime.reload();
       }
     };
@@ -27,11 +76,17 @@ const banner = (port: number) => `
 })();
 `;
 
-export function ReloadBackgroundPlugin(options: { entry: webpack.EntryObject; port: number }) {
+export function ReloadBackgroundPlugin(options: {
+  entry: webpack.EntryObject;
+  port: number;
+  token: string;
+  forwardLogs: boolean;
+  reinject: boolean;
+}) {
   return new webpack.BannerPlugin({
     raw: true,
     entryOnly: true,
     include: Object.keys(options.entry),
-    banner: banner(options.port),
+    banner: banner(options.port, options.token, options.forwardLogs, options.reinject),
   });
 }
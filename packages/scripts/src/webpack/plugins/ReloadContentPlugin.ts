@@ -1,23 +1,98 @@
 import webpack from 'webpack';
 
-const banner = (port: number) => `
+import { getDevServerUrl, protocolVersion } from '../../utils/devProtocol';
+import { errorOverlay } from './errorOverlay';
+import { forwardLogs } from './forwardLogs';
+
+// Run the cleanup hooks of this content script and ask the background to inject the new version in this frame.
+// Scripts that can't reach the background (e.g. scripts running in the main world) reload the page instead.
+const reinjectContentScript = () => `
+  globalThis.__browserExtContentScript = '[name]';
+
+  function reinjectContentScript() {
+    stopped = true;
+    ws.close();
+
+    const hooks = (globalThis.__browserExtCleanupHooks || {})['[name]'] || [];
+    delete (globalThis.__browserExtCleanupHooks || {})['[name]'];
+
+    hooks.forEach((hook) => {
+      try {
+        hook();
+      } catch (error) {
+        console.error('Content script cleanup failed', error);
+      }
+    });
+
+    try {
+      chrome.runtime
+        .sendMessage({ type: 'browser-ext:reinject', entry: '[name]' })
+        .then((response) => {
+          if (response !== true) {
+            window.location.reload();
+          }
+        }, () => window.location.reload());
+    } catch {
+      window.location.reload();
+    }
+  }
+`;
+
+// [name] is replaced with the name of the entry by the BannerPlugin
+const banner = (
+  port: number,
+  token: string,
+  shouldForwardLogs: boolean,
+  reinject: boolean,
+  reloadEntries: string[],
+) => `
 (() => {
+  let ws = null;
+  let stopped = false;
+
+  ${reinject ? reinjectContentScript() : ''}
+
+  ${shouldForwardLogs ? forwardLogs("'content@' + location.href") : ''}
+
+  ${errorOverlay(true)}
+
   function connect() {
-    const ws = new WebSocket('ws://localhost:${port}');
+    ws = new WebSocket('${getDevServerUrl(port, token)}');
     
+    ${shouldForwardLogs ? 'ws.onopen = () => startForwardingLogs(ws);' : ''}
+
     // Handle connection errors gracefully without throwing
     ws.onerror = () => {
       console.log('WebSocket connection failed. Retrying in 1s...');
     };
         
     ws.onmessage = (event) => {
-      // Only reload on content-script specific reload message
-      if (event.data === 'reload-content') {
-        window.location.reload();
+      const message = JSON.parse(event.data);
+
+      // Ignore messages from a dev server speaking another version of the protocol
+      if (message.version !== ${protocolVersion}) {
+        return;
+      }
+
+      // Show the errors and warnings of the last build, or clear them once it succeeds
+      if (message.type === 'errors') {
+        showErrorOverlay(message.errors, message.warnings);
+      }
+
+      // Only reload on content-script specific reload message that includes this entry or a script it may inject
+      const reloadEntries = ${JSON.stringify(['[name]', ...reloadEntries])};
+
+      if (message.type === 'reload' && message.scope === 'content' && reloadEntries.some((entry) => message.entries.includes(entry))) {
+        ${reinject ? 'reinjectContentScript();' : 'window.location.reload();'}
       }
     };
 
     ws.onclose = () => {
+      // A re-injected content script takes over the connection
+      if (stopped) {
+        return;
+      }
+
       console.log('Dev server disconnected. Retrying in 1s...');
       setTimeout(connect, 1000);
     };
@@ -27,11 +102,29 @@ const banner = (port: number) => `
 })();
 `;
 
-export function ReloadContentPlugin(options: { entry: webpack.EntryObject; port: number }) {
+// Scripts in web_accessible_resources can be fetched by the pages they are accessible to, so they don't get the banner
+// and its session token. The content scripts reload when they change instead, as they usually inject them.
+export function ReloadContentPlugin(options: {
+  entry: webpack.EntryObject;
+  webAccessibleEntry: webpack.EntryObject;
+  port: number;
+  token: string;
+  forwardLogs: boolean;
+  reinject: boolean;
+}) {
   return new webpack.BannerPlugin({
     raw: true,
     entryOnly: true,
-    include: Object.keys(options.entry),
-    banner: banner(options.port),
+    // Match the whole file names, the names of the entries would match any file they are a prefix of
+    include: Object.keys(options.entry)
+      .filter((name) => !(name in options.webAccessibleEntry))
+      .map((name) => `${name}.js`),
+    banner: banner(
+      options.port,
+      options.token,
+      options.forwardLogs,
+      options.reinject,
+      Object.keys(options.webAccessibleEntry),
+    ),
   });
 }
@@ -1,19 +1,52 @@
 import webpack from 'webpack';
 
-const banner = (port: number) => `
+import { getDevServerUrl, protocolVersion } from '../../utils/devProtocol';
+import { errorOverlay } from './errorOverlay';
+import { forwardLogs } from './forwardLogs';
+
+// [name] is replaced with the name of the entry by the BannerPlugin.
+// Logs are tagged with the name of the page, e.g. "popup" for src/popup/index.html or "options" for options.html
+const banner = (port: number, token: string, shouldForwardLogs: boolean) => `
 (() => {
+  ${shouldForwardLogs ? forwardLogs("location.pathname.replace(/\\/index\\.html$|\\.html$/, '').split('/').pop()") : ''}
+
+  ${errorOverlay(false)}
+
   function connect() {
-    const ws = new WebSocket('ws://localhost:${port}');
+    const ws = new WebSocket('${getDevServerUrl(port, token)}');
     
+    ${shouldForwardLogs ? 'ws.onopen = () => startForwardingLogs(ws);' : ''}
+
     // Handle connection errors gracefully without throwing
     ws.onerror = () => {
       console.log('WebSocket connection failed. Retrying in 1s...');
     };
         
     ws.onmessage = (event) => {
-      // Only reload on background-specific reload message
-      if (event.data === 'reload-page') {
-        chrome.runtime.reload();
+      const message = JSON.parse(event.data);
+
+      // Ignore messages from a dev server speaking another version of the protocol
+      if (message.version !== ${protocolVersion}) {
+        return;
+      }
+
+      // Show the errors and warnings of the last build, or clear them once it succeeds
+      if (message.type === 'errors') {
+        showErrorOverlay(message.errors, message.warnings);
+      }
+
+      // Only reload on page specific reload message that includes this entry
+      if (message.type === 'reload' && message.scope === 'page' && message.entries.includes('[name]')) {
+        window.location.reload();
+      }
+
+      // Let the hot client apply the update, pages without it (e.g. when it failed to load) reload instead
+      if (message.type === 'hot-update' && message.entries.includes('[name]')) {
+        if (window.__browserExtHotUpdate) {
+          window.__browserExtHotUpdate();
+        } else {
+          window.location.reload();
+        }
       }
     };
 
@@ -27,11 +60,16 @@ const banner = (port: number) => `
 })();
 `;
 
-export function ReloadPagePlugin(options: { entry: webpack.EntryObject; port: number }) {
+export function ReloadPagePlugin(options: {
+  entry: webpack.EntryObject;
+  port: number;
+  token: string;
+  forwardLogs: boolean;
+}) {
   return new webpack.BannerPlugin({
     raw: true,
     entryOnly: true,
     include: Object.keys(options.entry),
-    banner: banner(options.port),
+    banner: banner(options.port, options.token, options.forwardLogs),
   });
 }
@@ -0,0 +1,60 @@
+import webpack from 'webpack';
+
+import { validateManifest } from '../../manifest/validateManifest';
+import Logger from '../../utils/logger';
+import { pathToBrowserExt } from '../../utils/pathToBrowserExt';
+import { Target } from '../../utils/targets';
+
+// Validate the manifest.json emitted by CopyManifestPlugin, failing the build or warning in development
+export function ValidateManifestPlugin(isDevelopment: boolean, target: Target): webpack.WebpackPluginInstance {
+  return {
+    apply(compiler) {
+      compiler.hooks.thisCompilation.tap('ValidateManifestPlugin', (compilation) => {
+        compilation.hooks.processAssets.tap(
+          {
+            name: 'ValidateManifestPlugin',
+            stage: webpack.Compilation.PROCESS_ASSETS_STAGE_ANALYSE,
+          },
+          () => {
+            const asset = compilation.getAsset('manifest.json');
+
+            if (!asset) {
+              return;
+            }
+
+            let manifestJson: unknown;
+
+            try {
+              manifestJson = JSON.parse(asset.source.source().toString());
+            } catch (error) {
+              compilation.errors.push(new webpack.WebpackError(`manifest.json is not valid JSON: ${error}`));
+              return;
+            }
+
+            const issues = validateManifest(
+              manifestJson,
+              pathToBrowserExt.root,
+              compilation.getAssets().map((asset) => asset.name),
+            );
+
+            if (!issues.length) {
+              return;
+            }
+
+            const lines = issues.map((issue) => `${issue.path || '(root)'}: ${issue.message}`);
+
+            if (isDevelopment) {
+              lines.forEach((line) => {
+                Logger.warn(`manifest.json (${target}) ${line}`);
+              });
+              return;
+            }
+
+            Logger.error(`manifest.json (${target}) has ${issues.length} error(s)`, { message: lines.join('\n') });
+            compilation.errors.push(new webpack.WebpackError(`Invalid manifest.json (${target})`));
+          },
+        );
+      });
+    },
+  };
+}
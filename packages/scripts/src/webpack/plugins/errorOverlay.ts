@@ -0,0 +1,76 @@
+// Renders the build errors and warnings sent by the dev server in a dismissible overlay, shared by the reload banners.
+// Content scripts render it in a shadow root so the styles of the web page don't leak into the overlay.
+export const errorOverlay = (useShadowRoot: boolean) => `
+  const overlayId = 'browser-ext-error-overlay';
+
+  function createElement(tagName, style, text) {
+    const element = document.createElement(tagName);
+    Object.assign(element.style, style);
+    element.textContent = text || '';
+    return element;
+  }
+
+  function hideErrorOverlay() {
+    const overlay = document.getElementById(overlayId);
+
+    if (overlay) {
+      overlay.remove();
+    }
+  }
+
+  function showErrorOverlay(errors, warnings) {
+    hideErrorOverlay();
+
+    // A build without errors or warnings clears the overlay
+    if (!errors.length && !warnings.length) {
+      return;
+    }
+
+    const host = document.createElement('div');
+    host.id = overlayId;
+    const root = ${useShadowRoot} ? host.attachShadow({ mode: 'open' }) : host;
+
+    const overlay = createElement('div', {
+      position: 'fixed',
+      inset: '0',
+      zIndex: '2147483647',
+      overflow: 'auto',
+      padding: '24px',
+      background: 'rgba(0, 0, 0, 0.85)',
+      color: '#e8e8e8',
+      font: '13px/1.5 ui-monospace, Menlo, Consolas, monospace',
+      textAlign: 'left',
+    });
+
+    const header = createElement('div', { display: 'flex', justifyContent: 'space-between', marginBottom: '16px' });
+    const title = errors.length ? 'Failed to compile' : 'Compiled with warnings';
+    header.appendChild(createElement('strong', { fontSize: '16px', color: errors.length ? '#ff5555' : '#f1c40f' }, title));
+
+    const close = createElement('button', {
+      background: 'none',
+      border: 'none',
+      color: 'inherit',
+      font: 'inherit',
+      fontSize: '18px',
+      cursor: 'pointer',
+    }, '✕');
+    close.title = 'Dismiss';
+    close.onclick = hideErrorOverlay;
+    header.appendChild(close);
+    overlay.appendChild(header);
+
+    const problems = [
+      ...errors.map((problem) => ({ ...problem, color: '#ff5555' })),
+      ...warnings.map((problem) => ({ ...problem, color: '#f1c40f' })),
+    ];
+
+    problems.forEach((problem) => {
+      const location = (problem.file || '') + (problem.line ? ':' + problem.line : '');
+      overlay.appendChild(createElement('div', { color: problem.color, marginTop: '16px' }, '[' + problem.target + '] ' + location));
+      overlay.appendChild(createElement('pre', { margin: '4px 0 0', whiteSpace: 'pre-wrap' }, problem.message));
+    });
+
+    root.appendChild(overlay);
+    document.documentElement.appendChild(host);
+  }
+`;
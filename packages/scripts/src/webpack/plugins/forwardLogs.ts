@@ -0,0 +1,68 @@
+import { protocolVersion } from '../../utils/devProtocol';
+
+// Patches console.* and listens for uncaught errors to stream them to the dev terminal, shared by the reload banners.
+// The context is a JavaScript expression naming where the logs come from, e.g. 'background'.
+export const forwardLogs = (context: string) => `
+  const logQueue = [];
+  let logSocket = null;
+
+  function formatLogArgument(value) {
+    if (typeof value === 'string') {
+      return value;
+    }
+
+    if (value instanceof Error) {
+      return value.stack || value.message;
+    }
+
+    try {
+      return JSON.stringify(value);
+    } catch {
+      return String(value);
+    }
+  }
+
+  function sendLog(level, args) {
+    const message = JSON.stringify({
+      version: ${protocolVersion},
+      type: 'log',
+      level: level,
+      context: ${context},
+      message: args.map(formatLogArgument).join(' '),
+    });
+
+    if (logSocket && logSocket.readyState === WebSocket.OPEN) {
+      logSocket.send(message);
+    } else if (logQueue.length < 100) {
+      // Keep the logs written before the dev server is connected
+      logQueue.push(message);
+    }
+  }
+
+  function startForwardingLogs(ws) {
+    logSocket = ws;
+    logQueue.splice(0).forEach((message) => ws.send(message));
+  }
+
+  // Patch the console only once, a re-injected content script replaces the function that sends the logs
+  if (!globalThis.__browserExtSendLog) {
+    ['log', 'info', 'warn', 'error', 'debug'].forEach((level) => {
+      const original = console[level].bind(console);
+
+      console[level] = (...args) => {
+        original(...args);
+        globalThis.__browserExtSendLog(level, args);
+      };
+    });
+
+    self.addEventListener('error', (event) => {
+      globalThis.__browserExtSendLog('error', ['Uncaught', event.error || event.message]);
+    });
+
+    self.addEventListener('unhandledrejection', (event) => {
+      globalThis.__browserExtSendLog('error', ['Uncaught (in promise)', event.reason]);
+    });
+  }
+
+  globalThis.__browserExtSendLog = sendLog;
+`;